@@ -0,0 +1,287 @@
+// SightSound proxy: holds the model API keys server-side and exposes the analysis
+// endpoints the browser app calls when VITE_VISION_PROXY_URL is set.
+//
+//   POST /analyze/scene       { image: "data:image/jpeg;base64,...", language: "en" }
+//   POST /analyze/navigation  { image: "data:image/jpeg;base64,...", language: "en" }
+//   POST /analyze/read        { image: "data:image/jpeg;base64,...", language: "en" }
+//   POST /analyze/currency    { image: "data:image/jpeg;base64,...", language: "en" }
+//   POST /analyze/find        { image: "data:image/jpeg;base64,...", language: "en", target: "keys" }
+//   POST /analyze/ask         { image: "data:image/jpeg;base64,...", language: "en",
+//                               question: "is the door open?", history: [{ question, answer }] }
+//   POST /analyze/detail      { image: "data:image/jpeg;base64,...", language: "en" }
+//                             -> { description: "three to six sentences about the frame" }
+//   GET  /health
+//
+// Each analysis responds with the JSON of the matching function in src/services/vision.ts,
+// e.g. /analyze/detail with describeInDetail's { description }. The "tell me more" request
+// to /analyze/detail counts against the same per-device and per-address rate limits as the
+// regular /analyze/scene captures.
+//
+// Run with `npm run proxy`. Settings come from the environment and from `.env` in the working
+// directory, with variables set in the shell taking precedence. PROXY_PROVIDER=fake serves
+// canned answers for local testing.
+
+import { existsSync } from 'node:fs';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import {
+  createFakeProvider,
+  createGeminiProvider,
+  createOpenAICompatibleProvider,
+  type VisionProvider,
+} from '../src/services/providers';
+import { parseGeminiKeys } from '../src/services/providers/gemini';
+import { classifyProviderError } from '../src/services/providers/keyPool';
+import {
+  MAX_CONVERSATION_TURNS,
+  analyzeForNavigation,
+  analyzeImage,
+  answerQuestion,
+  describeInDetail,
+  identifyCurrency,
+  locateObject,
+  readText,
+  type AnalysisOptions,
+  type ConversationTurn,
+} from '../src/services/vision';
+import { isAbortError } from '../src/services/abort';
+import { isLanguage } from '../src/locales';
+import { createRateLimiter } from './rateLimiter';
+
+// Does not overwrite variables that are already set, so `KEY=value npm run proxy` still wins.
+if (existsSync('.env')) process.loadEnvFile('.env');
+
+const PORT = Number(process.env.PROXY_PORT || 8787);
+const ALLOWED_ORIGIN = process.env.PROXY_ALLOWED_ORIGIN || '*';
+// Camera screenshots are a few hundred KB; anything far larger is not a frame.
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const MAX_QUESTION_LENGTH = 500;
+const MAX_TARGET_LENGTH = 100;
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+function createProviderFromEnv(): VisionProvider {
+  const name = (process.env.PROXY_PROVIDER || 'gemini').trim().toLowerCase();
+  switch (name) {
+    case 'fake':
+      return createFakeProvider();
+    case 'openai': {
+      const { OPENAI_BASE_URL, OPENAI_MODEL, OPENAI_API_KEY } = process.env;
+      if (!OPENAI_BASE_URL || !OPENAI_MODEL) {
+        throw new Error('PROXY_PROVIDER=openai needs OPENAI_BASE_URL and OPENAI_MODEL.');
+      }
+      return createOpenAICompatibleProvider({ baseUrl: OPENAI_BASE_URL, model: OPENAI_MODEL, apiKey: OPENAI_API_KEY });
+    }
+    case 'gemini': {
+      const keys = parseGeminiKeys(process.env.GEMINI_API_KEYS ?? process.env.GEMINI_API_KEY ?? '');
+      if (keys.length === 0) {
+        throw new Error('Missing Gemini API key. Set GEMINI_API_KEYS (comma-separated) or GEMINI_API_KEY.');
+      }
+      return createGeminiProvider({ keys, model: process.env.GEMINI_MODEL || undefined });
+    }
+    default:
+      throw new Error(`Unknown PROXY_PROVIDER "${name}". Use gemini, openai or fake.`);
+  }
+}
+
+const provider = createProviderFromEnv();
+// Per device: the fastest capture policies (navigation while walking, object search) send a
+// frame every 2 seconds, which leaves room for commands and questions on top.
+const deviceRateLimiter = createRateLimiter({
+  capacity: Number(process.env.PROXY_RATE_LIMIT_BURST || 20),
+  refillPerMinute: Number(process.env.PROXY_RATE_LIMIT_PER_MINUTE || 60),
+});
+// Per address: many devices can share one behind carrier-grade NAT, so this cap is much
+// looser. It stops a single client from getting unlimited requests by inventing device ids.
+const addressRateLimiter = createRateLimiter({
+  capacity: Number(process.env.PROXY_ADDRESS_RATE_LIMIT_BURST || 200),
+  refillPerMinute: Number(process.env.PROXY_ADDRESS_RATE_LIMIT_PER_MINUTE || 600),
+});
+// Addresses of reverse proxies in front of this server. Only requests arriving from one of
+// them have their X-Forwarded-For header believed.
+const TRUSTED_PROXIES = new Set(
+  (process.env.PROXY_TRUSTED_PROXIES || '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean)
+);
+const MAX_DEVICE_ID_LENGTH = 128;
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    if (typeof parsed !== 'object' || parsed === null) throw new Error('not an object');
+    return parsed as Record<string, unknown>;
+  } catch {
+    throw new HttpError(400, 'Body must be a JSON object');
+  }
+}
+
+// The connecting address, or behind a trusted reverse proxy the nearest address in
+// X-Forwarded-For that is not one of the trusted proxies.
+function clientAddress(req: IncomingMessage): string {
+  const remote = req.socket.remoteAddress ?? 'unknown';
+  const forwarded = req.headers['x-forwarded-for'];
+  if (!TRUSTED_PROXIES.has(remote) || typeof forwarded !== 'string') return remote;
+
+  const hops = forwarded
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  for (let i = hops.length - 1; i >= 0; i--) {
+    if (!TRUSTED_PROXIES.has(hops[i])) return hops[i];
+  }
+  return hops[0] ?? remote;
+}
+
+// Requests without a device id share their address's bucket.
+function deviceKey(req: IncomingMessage, address: string): string {
+  const deviceId = req.headers['x-device-id'];
+  return typeof deviceId === 'string' && deviceId.trim()
+    ? `device:${deviceId.trim().slice(0, MAX_DEVICE_ID_LENGTH)}`
+    : `ip:${address}`;
+}
+
+function sendRateLimited(res: ServerResponse, retryAfterMs: number, error: string) {
+  sendJson(res, 429, { error }, { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) });
+}
+
+function readQuestion(body: Record<string, unknown>): string {
+  const question = typeof body.question === 'string' ? body.question.trim() : '';
+  if (!question) throw new HttpError(400, '"question" must be a non-empty string');
+  if (question.length > MAX_QUESTION_LENGTH) throw new HttpError(400, '"question" is too long');
+  return question;
+}
+
+function readTarget(body: Record<string, unknown>): string {
+  const target = typeof body.target === 'string' ? body.target.trim() : '';
+  if (!target) throw new HttpError(400, '"target" must be a non-empty string');
+  if (target.length > MAX_TARGET_LENGTH) throw new HttpError(400, '"target" is too long');
+  return target;
+}
+
+function readHistory(body: Record<string, unknown>): ConversationTurn[] {
+  if (body.history === undefined) return [];
+  if (!Array.isArray(body.history)) throw new HttpError(400, '"history" must be an array');
+  return body.history
+    .slice(-MAX_CONVERSATION_TURNS)
+    .filter(
+      (turn): turn is ConversationTurn =>
+        typeof turn?.question === 'string' && typeof turn?.answer === 'string'
+    )
+    .map((turn) => ({
+      question: turn.question.slice(0, MAX_QUESTION_LENGTH),
+      answer: turn.answer.slice(0, MAX_QUESTION_LENGTH),
+    }));
+}
+
+type AnalysisKind = 'scene' | 'navigation' | 'read' | 'currency' | 'ask' | 'find' | 'detail';
+
+type Analyzer = (
+  image: string,
+  language: string,
+  options: AnalysisOptions,
+  body: Record<string, unknown>
+) => Promise<unknown>;
+
+const analyzers: Record<AnalysisKind, Analyzer> = {
+  scene: analyzeImage,
+  navigation: analyzeForNavigation,
+  read: readText,
+  currency: identifyCurrency,
+  ask: (image, language, options, body) =>
+    answerQuestion(image, readQuestion(body), readHistory(body), language, options),
+  find: (image, language, options, body) => locateObject(image, readTarget(body), language, options),
+  detail: describeInDetail,
+};
+
+async function handleAnalyze(req: IncomingMessage, res: ServerResponse, kind: AnalysisKind) {
+  // The device bucket is checked first, so one busy device does not drain the address
+  // bucket it shares with others.
+  const address = clientAddress(req);
+  const device = deviceRateLimiter.check(deviceKey(req, address));
+  if (!device.allowed) {
+    sendRateLimited(res, device.retryAfterMs, 'Too many requests from this device');
+    return;
+  }
+  const network = addressRateLimiter.check(`ip:${address}`);
+  if (!network.allowed) {
+    sendRateLimited(res, network.retryAfterMs, 'Too many requests from this network');
+    return;
+  }
+
+  const body = await readJsonBody(req);
+  const image = body.image;
+  const language = typeof body.language === 'string' ? body.language : 'en';
+  if (typeof image !== 'string' || !image.startsWith('data:image/')) {
+    throw new HttpError(400, '"image" must be an image data URL');
+  }
+  if (!isLanguage(language)) {
+    throw new HttpError(400, `Unsupported language "${language}"`);
+  }
+
+  // Stop retrying upstream once the client has given up on this request.
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  const result = await analyzers[kind](image, language, { provider, signal: controller.signal }, body);
+  sendJson(res, 200, result);
+}
+
+const server = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Device-Id');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+  const analysisKind = path.startsWith('/analyze/') ? path.slice('/analyze/'.length) : '';
+
+  try {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+    } else if (req.method === 'GET' && path === '/health') {
+      sendJson(res, 200, { ok: true, provider: provider.name });
+    } else if (req.method === 'POST' && Object.hasOwn(analyzers, analysisKind)) {
+      await handleAnalyze(req, res, analysisKind as AnalysisKind);
+    } else {
+      sendJson(res, 404, { error: 'Not found' });
+    }
+  } catch (error) {
+    if (isAbortError(error) || res.writableEnded) return;
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message });
+      return;
+    }
+
+    console.error(`Error handling ${req.method} ${path}:`, error);
+    const classified = classifyProviderError(error);
+    // Upstream quota exhaustion is temporary from the client's point of view.
+    sendJson(res, classified.kind === 'rate_limited' ? 503 : 502, { error: 'Vision backend request failed' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`SightSound proxy listening on http://localhost:${PORT} (provider: ${provider.name})`);
+});
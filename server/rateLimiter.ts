@@ -0,0 +1,54 @@
+// Token bucket per client: each client (a device or an address) may burst up to `capacity` requests and then
+// gets `refillPerMinute` more per minute.
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  check(clientId: string): RateLimitDecision;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Buckets untouched for this long are full again anyway, so they can be dropped.
+const IDLE_BUCKET_TTL_MS = 10 * 60_000;
+
+export function createRateLimiter(
+  { capacity, refillPerMinute }: { capacity: number; refillPerMinute: number },
+  now: () => number = Date.now
+): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = refillPerMinute / 60_000;
+  let lastSweep = now();
+
+  const sweep = (time: number) => {
+    if (time - lastSweep < IDLE_BUCKET_TTL_MS) return;
+    lastSweep = time;
+    for (const [id, bucket] of buckets) {
+      if (time - bucket.updatedAt > IDLE_BUCKET_TTL_MS) buckets.delete(id);
+    }
+  };
+
+  return {
+    check(clientId) {
+      const time = now();
+      sweep(time);
+
+      const bucket = buckets.get(clientId) ?? { tokens: capacity, updatedAt: time };
+      bucket.tokens = Math.min(capacity, bucket.tokens + (time - bucket.updatedAt) * refillPerMs);
+      bucket.updatedAt = time;
+      buckets.set(clientId, bucket);
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return { allowed: true, retryAfterMs: 0 };
+      }
+      return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+    },
+  };
+}
@@ -11,42 +11,337 @@ import {
   Mic,
   Navigation2,
   Languages,
+  BookOpen,
+  Banknote,
+  MessageCircleQuestion,
+  Search,
+  WifiOff,
 } from "lucide-react";
 import SpeechRecognition, {
   useSpeechRecognition,
 } from "react-speech-recognition";
-import { analyzeImage, analyzeForNavigation } from "./services/vision";
+import {
+  analyzeImage,
+  analyzeForNavigation,
+  readText,
+  identifyCurrency,
+  answerQuestion,
+  describeInDetail,
+  locateObject,
+  MAX_CONVERSATION_TURNS,
+  type ConversationTurn,
+  type CurrencyResult,
+  type ObjectLocationResult,
+} from "./services/vision";
+import { extractQuestion } from "./services/questions";
+import { analyzeColors } from "./services/colorAnalysis";
+import {
+  detectObjectsOffline,
+  isCloudUnavailable,
+  isUnmeteredConnection,
+  preloadOfflineDetector,
+} from "./services/offlineDetector";
+import { splitIntoChunks } from "./services/textChunks";
+import { isAbortError } from "./services/abort";
+import type { Hazard, HazardSeverity } from "./services/hazards";
+import type { SceneObject } from "./services/analysisSchema";
+import { createCaptureScheduler, getCapturePolicy, type CapturePolicy } from "./services/captureScheduler";
+import { computeFrameSignature, frameDifference, isSameScene, type FrameSignature } from "./services/frameDiff";
+import { getOverlaySettings, type OverlaySettings } from "./services/overlaySettings";
+import { speechQueue, type SpeechPriority } from "./services/speechQueue";
+import { createCommandRegistry, type VoiceCommandDefinition } from "./services/voiceCommands";
+import { createNoveltyFilter, getNoveltySettings, type AnnouncedResult } from "./services/noveltyFilter";
+import { playChime, playTick } from "./services/audioCues";
+import { vibrateForHazards } from "./services/haptics";
+import { getEarconSettings, playHazardEarcons } from "./services/earcons";
+import { getSpeechPitch, getSpeechRate, getSpeechVoice, setSpeechRate } from "./services/voicePreferences";
+import { createWakeWindow, getWakeSettings, stripWakePhrase, wakePhrases } from "./services/wakePhrase";
 import { VoiceSettings } from "./components/VoiceSettings";
+import { AnalysisSettings } from "./components/AnalysisSettings";
+import { HapticSettings } from "./components/HapticSettings";
+import { EarconSettings } from "./components/EarconSettings";
+import { ListeningSettings } from "./components/ListeningSettings";
+import { DetectionOverlay } from "./components/DetectionOverlay";
 import { Tab } from "./components/Tab";
-import { translations, Language } from "./translations";
+import {
+  LANGUAGES,
+  getLocale,
+  isLanguage,
+  pickVoice,
+  type Language,
+  type UiStrings,
+} from "./locales";
+import type { Mode } from "./modes";
+
+interface ReadingState {
+  summary: string;
+  chunks: string[];
+  index: number;
+}
+
+// What a voice command sees when it runs: the state and actions of the latest render.
+interface CommandContext {
+  mode: Mode;
+  language: Language;
+  t: UiStrings;
+  hazards: Hazard[] | null;
+  reading: ReadingState | null;
+  isSearching: boolean;
+  isAnalysisPaused: boolean;
+  speak: (text: string, priority: SpeechPriority) => void;
+  switchMode: (mode: Mode) => void;
+  toggleLanguage: () => void;
+  queryColor: (query: "color" | "light") => void;
+  startSearch: (target: string) => void;
+  stopSearch: () => void;
+  captureOnDemand: (mode: "read" | "currency") => void;
+  readChunk: (index: number) => void;
+  stopReading: () => void;
+  setAnalysisPaused: (paused: boolean) => void;
+  describeNow: () => void;
+  tellMeMore: () => void;
+  repeatLast: () => void;
+  stopTalking: () => void;
+  changeSpeechRate: (step: number) => void;
+  help: () => void;
+}
+
+// How much "speak faster" and "speak slower" change the rate; two steps of the settings slider.
+const SPEECH_RATE_STEP = 0.2;
+
+// Fixed voice commands, in the order "help" lists them.
+const VOICE_COMMANDS: VoiceCommandDefinition<CommandContext>[] = [
+  {
+    id: "navigation",
+    fuzzyMatchingThreshold: 0.8,
+    isAvailable: ({ mode }) => mode !== "navigation",
+    handler: ({ switchMode }) => switchMode("navigation"),
+  },
+  {
+    id: "scene",
+    fuzzyMatchingThreshold: 0.8,
+    isAvailable: ({ mode }) => mode !== "scene",
+    handler: ({ switchMode }) => switchMode("scene"),
+  },
+  {
+    id: "hazards",
+    isAvailable: ({ mode }) => mode === "scene" || mode === "navigation",
+    handler: ({ hazards, t, speak, language, mode }) => {
+      if (!hazards) return;
+      speak(hazards.length > 0 ? t.detectedHazards(hazards) : t.noHazards, "command");
+
+      // Track voice command for hazards
+      trackEngagement("voice_command", {
+        command: "hazards_query",
+        language: language,
+        hazards_found: hazards.length > 0,
+        hazard_count: hazards.length,
+        hazard_types: hazards.map((h) => h.type).join(","),
+        mode: mode,
+      });
+    },
+  },
+  {
+    id: "describeNow",
+    fuzzyMatchingThreshold: 0.8,
+    bestMatchOnly: true,
+    handler: ({ describeNow }) => describeNow(),
+  },
+  {
+    id: "tellMeMore",
+    fuzzyMatchingThreshold: 0.8,
+    bestMatchOnly: true,
+    handler: ({ tellMeMore }) => tellMeMore(),
+  },
+  {
+    id: "read",
+    fuzzyMatchingThreshold: 0.8,
+    bestMatchOnly: true,
+    handler: ({ captureOnDemand }) => captureOnDemand("read"),
+  },
+  {
+    id: "currency",
+    fuzzyMatchingThreshold: 0.8,
+    bestMatchOnly: true,
+    handler: ({ captureOnDemand }) => captureOnDemand("currency"),
+  },
+  {
+    // The patterns never overlap, so an utterance cannot start two searches.
+    id: "find",
+    handler: ({ startSearch }, target) => startSearch(target),
+  },
+  {
+    id: "color",
+    handler: ({ queryColor }) => queryColor("color"),
+  },
+  {
+    id: "light",
+    handler: ({ queryColor }) => queryColor("light"),
+  },
+  {
+    id: "continueReading",
+    isAvailable: ({ reading }) => !!reading,
+    handler: ({ reading, readChunk, speak, t }) => {
+      if (!reading) {
+        speak(t.noReadingInProgress, "command");
+      } else if (reading.index + 1 < reading.chunks.length) {
+        readChunk(reading.index + 1);
+      } else {
+        speak(t.endOfText, "command");
+      }
+    },
+  },
+  {
+    // While reading, the current part; otherwise whatever was said last.
+    id: "repeat",
+    handler: ({ reading, readChunk, repeatLast }) => {
+      if (reading) {
+        readChunk(reading.index);
+      } else {
+        repeatLast();
+      }
+    },
+  },
+  {
+    id: "stop",
+    isAvailable: ({ reading, isSearching }) => !!reading || isSearching,
+    handler: ({ isSearching, stopSearch, stopReading }) => {
+      if (isSearching) {
+        stopSearch();
+      } else {
+        stopReading();
+      }
+    },
+  },
+  {
+    // Read mode never captures on a timer, so there is nothing to pause there.
+    id: "pauseAnalysis",
+    isAvailable: ({ isAnalysisPaused, mode }) => !isAnalysisPaused && mode !== "read",
+    handler: ({ setAnalysisPaused }) => setAnalysisPaused(true),
+  },
+  {
+    id: "resumeAnalysis",
+    isAvailable: ({ isAnalysisPaused }) => isAnalysisPaused,
+    handler: ({ setAnalysisPaused }) => setAnalysisPaused(false),
+  },
+  {
+    id: "stopTalking",
+    handler: ({ stopTalking }) => stopTalking(),
+  },
+  {
+    id: "faster",
+    handler: ({ changeSpeechRate }) => changeSpeechRate(SPEECH_RATE_STEP),
+  },
+  {
+    id: "slower",
+    handler: ({ changeSpeechRate }) => changeSpeechRate(-SPEECH_RATE_STEP),
+  },
+  {
+    // Heard in every language, so someone who cannot follow the current one can still get out.
+    id: "switchLanguage",
+    allLanguages: true,
+    handler: ({ toggleLanguage }) => toggleLanguage(),
+  },
+  {
+    id: "help",
+    fuzzyMatchingThreshold: 0.8,
+    handler: ({ help }) => help(),
+  },
+];
+
+// Below this, the user is asked to reposition the note rather than given a guess.
+const MIN_CURRENCY_CONFIDENCE = 0.7;
+
+// Even an unchanged scene gets re-analyzed after this long, in case a small change was missed.
+const MAX_FRAME_REUSE_MS = 60000;
+
+// A critical hazard lets an automatic result cut in ahead of anything else being said.
+const hazardPriority = (hazards: Hazard[]): SpeechPriority =>
+  hazards.some((h) => h.severity === "critical") ? "critical" : "description";
+
+const severityStyles: Record<HazardSeverity, string> = {
+  critical: "bg-red-600 text-white",
+  warning: "bg-amber-500/80 text-black",
+  info: "bg-sky-500/70 text-white",
+};
 
 function App() {
   const [isCapturing, setIsCapturing] = useState(false);
   const [analysis, setAnalysis] = useState<{
-    objects: string[];
+    objects: SceneObject[];
     description: string;
-    hazards: string[];
+    hazards: Hazard[];
     navigation?: string;
   } | null>(null);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
-  const [mode, setMode] = useState<"scene" | "navigation">("scene");
+  // Set by "pause". Unlike isPaused, which only holds captures while a command is being
+  // answered, it lasts until "resume".
+  const [isAnalysisPaused, setIsAnalysisPaused] = useState(false);
+  const [mode, setMode] = useState<Mode>("scene");
   const [language, setLanguage] = useState<Language>("en");
+  const [capturePolicy, setCapturePolicy] = useState<CapturePolicy>(getCapturePolicy);
+  const [overlay, setOverlay] = useState<OverlaySettings>(getOverlaySettings);
   const webcamRef = useRef<Webcam>(null);
-  const speechRef = useRef<SpeechSynthesisUtterance | null>(null);
-  const analysisIntervalRef = useRef<number | null>(null);
+  // Kept in state rather than read from webcamRef during render, so the overlay re-renders
+  // once the camera has started.
+  const [webcamVideo, setWebcamVideo] = useState<HTMLVideoElement | null>(null);
   const pauseTimeoutRef = useRef<number | null>(null);
   const imageAnalysisCountRef = useRef<number>(0);
   const totalSpeakingTimeRef = useRef<number>(0);
   const speakingStartTimeRef = useRef<number | null>(null);
   const lastInteractionTimeRef = useRef<number>(Date.now());
+  const lastAnalyzedFrameRef = useRef<{
+    signature: FrameSignature;
+    mode: Mode;
+    language: Language;
+    analyzedAt: number;
+  } | null>(null);
+  const analysisControllerRef = useRef<AbortController | null>(null);
+  const latestRequestIdRef = useRef<number>(0);
+  const noveltyFilterRef = useRef(createNoveltyFilter());
+  const [reading, setReading] = useState<ReadingState | null>(null);
+  const [currency, setCurrency] = useState<CurrencyResult | null>(null);
+  // Set by on-demand commands ("read this", "which note"); the capture runs once
+  // the new mode is active and speech has stopped.
+  const [pendingCapture, setPendingCapture] = useState(false);
+  // Questions are answered from the most recent screenshot, whatever the mode.
+  const lastFrameRef = useRef<string | null>(null);
+  const [conversation, setConversation] = useState<ConversationTurn[]>([]);
+  const askControllerRef = useRef<AbortController | null>(null);
+  // For "repeat that": the last text that actually started playing.
+  const lastSpokenRef = useRef<string | null>(null);
+  // Set by any fixed voice command, so the same utterance is not also treated as a question.
+  const commandHandledRef = useRef(false);
+  // In wake-phrase mode, commands and questions are only acted on while the window is open.
+  const [listeningMode, setListeningMode] = useState(() => getWakeSettings().mode);
+  const [isWakeWindowOpen, setIsWakeWindowOpen] = useState(false);
+  const wakeWindowRef = useRef(
+    createWakeWindow({
+      onChange: (open) => {
+        setIsWakeWindowOpen(open);
+        playChime(open ? "open" : "close");
+      },
+    })
+  );
+  // Reduced mode: scene and navigation fall back to the on-device detector.
+  const [isOffline, setIsOffline] = useState(false);
+  // The on-device detector could not be loaded, so there is no offline fallback for now.
+  const [offlineDetectorFailed, setOfflineDetectorFailed] = useState(false);
+  const [search, setSearch] = useState<{
+    target: string;
+    // Mode to go back to when the search ends.
+    returnMode: Mode;
+    location: ObjectLocationResult | null;
+  } | null>(null);
 
-  const t = translations[language];
+  const locale = getLocale(language);
+  const t = locale.strings;
 
-  const handleModeSwitch = (newMode: "scene" | "navigation") => {
+  const handleModeSwitch = (newMode: Mode) => {
     const previousMode = mode;
     setMode(newMode);
-    speak(t.switchedToMode(newMode), true);
+    speak(t.switchedToMode(newMode), "command");
 
     // Track mode switch in GA
     trackEvent("mode_switched", {
@@ -58,10 +353,9 @@ function App() {
   };
 
   const handleLanguageToggle = () => {
-    const languages: Language[] = ["en", "hi", "ml"];
-    const currentIndex = languages.indexOf(language);
-    const nextIndex = (currentIndex + 1) % languages.length;
-    const newLang = languages[nextIndex];
+    const currentIndex = LANGUAGES.indexOf(language);
+    const nextIndex = (currentIndex + 1) % LANGUAGES.length;
+    const newLang = LANGUAGES[nextIndex];
 
     const previous = language;
     setLanguage(newLang);
@@ -79,8 +373,8 @@ function App() {
   };
 
   useEffect(() => {
-    const savedLang = localStorage.getItem("language") as Language;
-    if (savedLang && ["en", "ml", "hi"].includes(savedLang)) {
+    const savedLang = localStorage.getItem("language");
+    if (isLanguage(savedLang)) {
       setLanguage(savedLang);
       // Track initial language preference
       updateUserProperties({ preferred_language: savedLang });
@@ -132,90 +426,455 @@ function App() {
     };
   }, []);
 
+  const handleQuestion = async (question: string) => {
+    const frame = lastFrameRef.current ?? webcamRef.current?.getScreenshot() ?? null;
+    if (!frame) {
+      speak(t.askNoFrame, "command");
+      return;
+    }
+
+    // Hold automatic captures so the answer is not talked over.
+    speechQueue.stop();
+    setIsPaused(true);
+    analysisControllerRef.current?.abort();
+    askControllerRef.current?.abort();
+    const controller = new AbortController();
+    askControllerRef.current = controller;
+
+    const questionStartTime = performance.now();
+    lastInteractionTimeRef.current = Date.now();
+
+    try {
+      const result = await answerQuestion(frame, question, conversation, language, {
+        signal: controller.signal,
+      });
+      if (controller.signal.aborted) return;
+      const answerDuration = Math.round(performance.now() - questionStartTime);
+
+      setConversation((prev) =>
+        [...prev, { question, answer: result.answer }].slice(-MAX_CONVERSATION_TURNS)
+      );
+
+      trackEngagement("voice_command", {
+        command: "ask_question",
+        language: language,
+        mode: mode,
+        question_length: question.length,
+        answer_length: result.answer.length,
+        is_follow_up: conversation.length > 0,
+      });
+      trackPerformance("question_answering", answerDuration);
+
+      speak(result.answer || t.errorAnswering, "command");
+    } catch (error) {
+      if (isAbortError(error)) return;
+
+      console.error("Error answering question:", error);
+      trackError(error instanceof Error ? error : new Error(String(error)), {
+        mode,
+        language,
+        context: "ask_question",
+      });
+      speak(t.errorAnswering, "command");
+    } finally {
+      if (askControllerRef.current === controller) {
+        askControllerRef.current = null;
+        // A cancelled question speaks nothing, so nothing else would lift the pause.
+        if (controller.signal.aborted) setIsPaused(false);
+      }
+    }
+  };
+
+  // "Tell me more": a longer description of the frame the user last heard about.
+  const handleTellMeMore = async () => {
+    const frame = lastFrameRef.current ?? webcamRef.current?.getScreenshot() ?? null;
+    if (!frame) {
+      speak(t.askNoFrame, "command");
+      return;
+    }
+
+    // Shares the question's controller: asking something else replaces it, and vice versa.
+    speechQueue.stop();
+    setIsPaused(true);
+    analysisControllerRef.current?.abort();
+    askControllerRef.current?.abort();
+    const controller = new AbortController();
+    askControllerRef.current = controller;
+
+    const detailStartTime = performance.now();
+    lastInteractionTimeRef.current = Date.now();
+
+    try {
+      const result = await describeInDetail(frame, language, { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      const detailDuration = Math.round(performance.now() - detailStartTime);
+
+      trackEngagement("voice_command", {
+        command: "tell_me_more",
+        language: language,
+        mode: mode,
+        description_length: result.description.length,
+      });
+      trackPerformance("detailed_description", detailDuration);
+
+      speak(result.description || t.errorAnalyzing, "command");
+    } catch (error) {
+      if (isAbortError(error)) return;
+
+      console.error("Error describing in detail:", error);
+      trackError(error instanceof Error ? error : new Error(String(error)), {
+        mode,
+        language,
+        context: "tell_me_more",
+      });
+      speak(navigator.onLine ? t.errorAnalyzing : t.needsConnection, "command");
+    } finally {
+      if (askControllerRef.current === controller) {
+        askControllerRef.current = null;
+        if (controller.signal.aborted) setIsPaused(false);
+      }
+    }
+  };
+
+  // Answered on-device from a fresh screenshot, so it works offline and costs no quota.
+  const handleColorQuery = async (query: "color" | "light") => {
+    const frame = webcamRef.current?.getScreenshot();
+    if (!frame) {
+      speak(t.askNoFrame, "command");
+      return;
+    }
+
+    lastInteractionTimeRef.current = Date.now();
+    try {
+      const reading = await analyzeColors(frame);
+      speak(query === "color" ? t.colorResult(reading.colors) : t.lightResult[reading.lightLevel], "command");
+
+      trackEngagement("voice_command", {
+        command: query === "color" ? "color_query" : "light_query",
+        language: language,
+        mode: mode,
+        colors: reading.colors.map((c) => c.name).join(","),
+        light_level: reading.lightLevel,
+      });
+    } catch (error) {
+      console.error("Error analyzing colours:", error);
+      trackError(error instanceof Error ? error : new Error(String(error)), {
+        mode,
+        language,
+        context: `${query}_query`,
+      });
+      speak(t.errorAnalyzing, "command");
+    }
+  };
+
+  const startSearch = (target: string) => {
+    const cleaned = target.trim();
+    if (!cleaned) return;
+
+    speechQueue.stop();
+    // A frame in flight was checked for the previous target.
+    analysisControllerRef.current?.abort();
+    setSearch({
+      target: cleaned,
+      returnMode: mode === "find" ? search?.returnMode ?? "scene" : mode,
+      location: null,
+    });
+    setMode("find");
+    setPendingCapture(true);
+    speak(t.searchStarted(cleaned), "command");
+
+    trackEvent("object_search_started", {
+      target: cleaned,
+      from_mode: mode,
+      language: language,
+    });
+  };
+
+  const stopSearch = (method: string) => {
+    if (!search) return;
+
+    speechQueue.stop();
+    setSearch(null);
+    setMode(search.returnMode);
+    speak(t.searchStopped(search.target), "command");
+
+    trackEvent("object_search_stopped", {
+      target: search.target,
+      found: search.location?.found ?? false,
+      method,
+      language: language,
+    });
+  };
+
+  // Runs a fresh capture in a mode that only captures on request ("read this", "which note").
+  const captureOnDemand = (target: "read" | "currency") => {
+    speechQueue.stop();
+    setPendingCapture(true);
+    if (mode !== target) {
+      setMode(target);
+      trackEvent("mode_switched", {
+        from_mode: mode,
+        to_mode: target,
+        method: "voice_command",
+        language: language,
+      });
+    }
+  };
+
+  const stopReading = () => {
+    if (!reading) return;
+    speechQueue.stop();
+    setReading(null);
+    speak(t.readingStopped, "command");
+    trackEngagement("voice_command", {
+      command: "stop_reading",
+      language: language,
+      chunks_read: reading.index + 1,
+      chunk_count: reading.chunks.length,
+    });
+  };
+
+  const speakHelp = () => {
+    const commands = commandRegistryRef.current.available();
+    speak(t.helpMessage(mode, commands), "command");
+    trackEngagement("voice_command", {
+      command: "help",
+      language: language,
+      mode: mode,
+      commands_listed: commands.length,
+    });
+  };
+
+  const setAnalysisPaused = (paused: boolean) => {
+    setIsAnalysisPaused(paused);
+    if (paused) {
+      // A result already on its way would otherwise be spoken after the confirmation.
+      analysisControllerRef.current?.abort();
+      speechQueue.stop();
+    } else if (mode !== "read") {
+      setPendingCapture(true);
+    }
+    speak(paused ? t.analysisPaused : t.analysisResumed, "command");
+    trackEngagement("voice_command", {
+      command: paused ? "pause_analysis" : "resume_analysis",
+      language: language,
+      mode: mode,
+    });
+  };
+
+  // A fresh capture straight away, even while paused. The novelty filter is reset so the
+  // whole description is spoken, not just what changed.
+  const describeNow = () => {
+    speechQueue.stop();
+    noveltyFilterRef.current.reset();
+    setPendingCapture(true);
+    trackEngagement("voice_command", {
+      command: "describe_now",
+      language: language,
+      mode: mode,
+    });
+  };
+
+  const repeatLast = () => {
+    speak(lastSpokenRef.current ?? t.nothingToRepeat, "command");
+    trackEngagement("voice_command", {
+      command: "repeat_last",
+      language: language,
+      mode: mode,
+      had_text: !!lastSpokenRef.current,
+    });
+  };
+
+  const changeSpeechRate = (step: number) => {
+    const rate = setSpeechRate(getSpeechRate() + step);
+    speak(t.speechRateChanged(rate), "command");
+    trackEngagement("voice_command", {
+      command: step > 0 ? "speak_faster" : "speak_slower",
+      language: language,
+      speech_rate: rate,
+    });
+  };
+
+  // Commands read this when they run, so they always act on the latest state.
+  const commandContextRef = useRef<CommandContext>();
+  useEffect(() => {
+    commandContextRef.current = {
+      mode,
+      language,
+      t,
+      hazards: analysis?.hazards ?? null,
+      reading,
+      isSearching: !!search,
+      isAnalysisPaused,
+      speak,
+      switchMode: handleModeSwitch,
+      toggleLanguage: handleLanguageToggle,
+      queryColor: handleColorQuery,
+      startSearch,
+      stopSearch: () => stopSearch("voice_command"),
+      captureOnDemand,
+      readChunk: (index) => reading && speakReadingChunk(reading, index),
+      stopReading,
+      setAnalysisPaused,
+      describeNow,
+      tellMeMore: handleTellMeMore,
+      repeatLast,
+      stopTalking: () => stopSpeaking("voice_command"),
+      changeSpeechRate,
+      help: speakHelp,
+    };
+  });
+
+  const commandRegistryRef = useRef(
+    createCommandRegistry(VOICE_COMMANDS, {
+      getContext: () => commandContextRef.current!,
+      // Keeps the same utterance from also being taken as a question.
+      onCommand: () => {
+        commandHandledRef.current = true;
+        wakeWindowRef.current.extend();
+      },
+      isListening: () => getWakeSettings().mode === "always" || wakeWindowRef.current.isOpen(),
+    })
+  );
+
   const {
     listening,
     browserSupportsSpeechRecognition,
     isMicrophoneAvailable,
   } = useSpeechRecognition({
     commands: [
+      ...commandRegistryRef.current.recognitionCommands(language),
       {
-        command: [
-          "switch to navigation",
-          "navigation mode",
-          "enable navigation",
-          "start navigation",
-          "begin navigation",
-          "navigate",
-          "नेविगेशन",
-          "नेविगेट",
-          "നാവിഗേഷൻ",
-          "നാവിഗേഷൻ മോഡ്",
-        ],
-        callback: () => handleModeSwitch("navigation"),
-        isFuzzyMatch: true,
-        fuzzyMatchingThreshold: 0.8,
-      },
-      {
-        command: [
-          "switch to scene",
-          "scene mode",
-          "scene description",
-          "enable scene",
-          "start scene",
-          "describe scene",
-          "what do you see",
-          "दृश्य विवरण",
-          "दृश्य मोड",
-          "ദൃശ്യ വിവരണം",
-          "സീൻ മോഡ്",
-        ],
-        callback: () => handleModeSwitch("scene"),
-        isFuzzyMatch: true,
-        fuzzyMatchingThreshold: 0.8,
-      },
-      {
-        command: [
-          "hazards",
-          "dangers",
-          "what are the hazards",
-          "any dangers",
-          "खतरे",
-          "कोई खतरा",
-          "അപകടങ്ങൾ",
-          "അപകട സാധ്യതകൾ",
-        ],
-        callback: () => {
-          if (analysis?.hazards) {
-            const response =
-              analysis.hazards.length > 0
-                ? t.detectedHazards(analysis.hazards)
-                : t.noHazards;
-            speak(response, true);
-
-            // Track voice command for hazards
-            trackEngagement("voice_command", {
-              command: "hazards_query",
-              language: language,
-              hazards_found: analysis.hazards.length > 0,
-              hazard_count: analysis.hazards.length,
-              mode: mode,
-            });
+        // Free-form path: runs last for every final utterance, after the fixed commands.
+        command: "*",
+        callback: (utterance: string) => {
+          const handled = commandHandledRef.current;
+          commandHandledRef.current = false;
+          if (handled) return;
+
+          let text = utterance;
+          if (getWakeSettings().mode === "wakePhrase") {
+            const afterWake = stripWakePhrase(utterance, wakePhrases(language));
+            if (afterWake !== null) {
+              wakeWindowRef.current.open();
+              trackEngagement("voice_command", {
+                command: "wake_phrase",
+                language: language,
+                followed_by_request: !!afterWake,
+              });
+              // "Hey SightSound, read this" in one breath: what follows is the command or question.
+              if (!afterWake || commandRegistryRef.current.dispatch(afterWake, language)) return;
+              text = afterWake;
+            } else if (!wakeWindowRef.current.isOpen()) {
+              return;
+            }
+          }
+
+          const question = extractQuestion(text);
+          if (question) {
+            wakeWindowRef.current.extend();
+            handleQuestion(question);
           }
         },
       },
-      {
-        command: [
-          "switch language",
-          "change language",
-          "toggle language",
-          "भाषा बदलें",
-          "ഭാഷ മാറ്റുക",
-        ],
-        callback: handleLanguageToggle,
-      },
     ],
   });
 
+  const speakReadingChunk = (
+    state: { summary: string; chunks: string[]; index: number },
+    index: number
+  ) => {
+    const isLast = index === state.chunks.length - 1;
+    const intro = index === 0 ? `${t.readingIntro(state.summary, state.chunks.length)} ` : "";
+    const outro = isLast ? ` ${t.endOfText}` : index === 0 ? ` ${t.readingContinuePrompt}` : "";
+
+    setReading({ ...state, index });
+    speak(`${intro}${state.chunks[index]}${outro}`, "command");
+  };
+
+  const analyzeOffline = async (imageSrc: string, signal: AbortSignal, startTime: number) => {
+    const result = await detectObjectsOffline(imageSrc);
+    setOfflineDetectorFailed(false);
+    if (signal.aborted) return;
+    vibrateForHazards(result.hazards);
+    playHazardEarcons(result.hazards);
+    const analysisDuration = Math.round(performance.now() - startTime);
+    const summary = result.hazards.length > 0 ? t.detectedHazards(result.hazards) : t.offlineNothingDetected;
+
+    setAnalysis({ objects: result.objects, description: summary, hazards: result.hazards, navigation: summary });
+
+    trackEvent("image_analyzed", {
+      mode: mode,
+      language: language,
+      offline: true,
+      hazards_detected: result.hazards.length,
+      critical_hazards: result.hazards.filter((h) => h.severity === "critical").length,
+      hazard_types: result.hazards.map((h) => h.type).join(","),
+      objects_detected: result.objects.length,
+      objects: result.objects.map((o) => o.name).join(","),
+      analysis_duration_ms: analysisDuration,
+      total_analyses: imageAnalysisCountRef.current,
+    });
+    trackPerformance("offline_detection", analysisDuration);
+
+    if (!isOffline) {
+      setIsOffline(true);
+      trackEvent("offline_mode_changed", { offline: true, mode, language });
+    }
+    if (!isPaused) {
+      // The detector's labels are English only, so only its hazards are compared.
+      announce(
+        { description: summary, hazards: result.hazards, objects: [] },
+        summary,
+        isOffline ? "" : `${t.offlineModeOn} `
+      );
+    }
+  };
+
+  // Speaks a scene, navigation or offline result in full, or only what is new compared with
+  // recent results. An announcement (e.g. going offline) always brings the full result with it.
+  const announce = (result: AnnouncedResult, fullText: string, announcement = "") => {
+    const novelty = noveltyFilterRef.current.check(result);
+
+    // The hazards were already heard as earcons; only the announcement itself is spoken.
+    const earcons = getEarconSettings();
+    if (earcons.enabled && earcons.earconsOnly) {
+      if (announcement) speak(announcement, "command");
+      return;
+    }
+
+    if (announcement || novelty.isNewScene) {
+      speak(announcement + fullText, hazardPriority(result.hazards));
+      return;
+    }
+
+    const changes = [
+      ...(novelty.hazards.length > 0 ? [t.detectedHazards(novelty.hazards)] : []),
+      ...(novelty.objects.length > 0 ? [t.newInView(novelty.objects)] : []),
+    ];
+    trackEvent("announcement_filtered", {
+      mode,
+      language,
+      outcome: changes.length > 0 ? "changes_only" : "suppressed",
+      new_hazards: novelty.hazards.length,
+      new_objects: novelty.objects.length,
+    });
+
+    if (changes.length > 0) {
+      speak(changes.join(". "), hazardPriority(novelty.hazards));
+    } else if (getNoveltySettings().unchangedCue === "tick") {
+      playTick();
+    }
+  };
+
+  // Returns the announcement to put before the next description if offline mode just ended.
+  const leaveOfflineMode = () => {
+    if (!isOffline) return "";
+    setIsOffline(false);
+    trackEvent("offline_mode_changed", { offline: false, mode, language });
+    return `${t.offlineModeOff} `;
+  };
+
   const videoConstraints = {
     facingMode: { ideal: "environment" },
     width: { ideal: window.innerWidth },
@@ -223,12 +882,27 @@ function App() {
     aspectRatio: { ideal: window.innerWidth / window.innerHeight },
   };
 
-  const handleCapture = useCallback(async () => {
-    if (!webcamRef.current || isPaused || isSpeaking) return;
+  // handleCapture is only recreated when its own inputs change, so it reads these per-render
+  // helpers through a ref to pick up the current voice, rate and earcon settings.
+  const captureHelpersRef = useRef<{
+    announce: typeof announce;
+    analyzeOffline: typeof analyzeOffline;
+    leaveOfflineMode: typeof leaveOfflineMode;
+    speak: typeof speak;
+    speakReadingChunk: typeof speakReadingChunk;
+  }>();
+  useEffect(() => {
+    captureHelpersRef.current = { announce, analyzeOffline, leaveOfflineMode, speak, speakReadingChunk };
+  });
+
+  const handleCapture = useCallback(async ({ force = false }: { force?: boolean } = {}) => {
+    if (!webcamRef.current || isPaused || !captureHelpersRef.current) return;
+    const { announce, analyzeOffline, leaveOfflineMode, speak, speakReadingChunk } = captureHelpersRef.current;
 
     setIsCapturing(true);
     const analysisStartTime = performance.now();
     const imageSrc = webcamRef.current.getScreenshot();
+    let controller: AbortController | null = null;
 
     try {
       if (!imageSrc) {
@@ -236,6 +910,39 @@ function App() {
         trackError("No image captured from webcam", { mode, language });
         return;
       }
+      lastFrameRef.current = imageSrc;
+
+      // Skip the network round trip when the camera sees essentially the same scene.
+      const signature = await computeFrameSignature(imageSrc).catch(() => null);
+      const lastFrame = lastAnalyzedFrameRef.current;
+      if (
+        !force &&
+        mode !== "read" &&
+        signature &&
+        lastFrame &&
+        lastFrame.mode === mode &&
+        lastFrame.language === language &&
+        Date.now() - lastFrame.analyzedAt < MAX_FRAME_REUSE_MS &&
+        isSameScene(lastFrame.signature, signature)
+      ) {
+        trackEvent("analysis_skipped", {
+          reason: "unchanged_frame",
+          mode,
+          language,
+          frame_difference: Number(frameDifference(lastFrame.signature, signature).toFixed(4)),
+        });
+        return;
+      }
+
+      // Supersede anything still in flight; only the newest request may update the UI or speak.
+      analysisControllerRef.current?.abort();
+      const activeController = new AbortController();
+      controller = activeController;
+      analysisControllerRef.current = activeController;
+      const requestId = ++latestRequestIdRef.current;
+      const isStale = (id?: number) =>
+        id !== latestRequestIdRef.current || activeController.signal.aborted;
+      const analysisOptions = { signal: activeController.signal, requestId };
 
       imageAnalysisCountRef.current += 1;
       lastInteractionTimeRef.current = Date.now();
@@ -247,12 +954,108 @@ function App() {
         analysis_count: imageAnalysisCountRef.current,
       });
 
-      if (mode === "navigation") {
-        const result = await analyzeForNavigation(imageSrc, language);
+      if (!navigator.onLine) {
+        // Skip the doomed cloud request; the catch below falls back or explains.
+        throw new Error("Device is offline");
+      }
+
+      if (mode === "find") {
+        if (!search) return;
+        const { target } = search;
+        const result = await locateObject(imageSrc, target, language, analysisOptions);
+        if (isStale(result.requestId)) return;
+        const analysisDuration = Math.round(performance.now() - analysisStartTime);
+        const previous = search.location;
+
+        setSearch((prev) => (prev && prev.target === target ? { ...prev, location: result } : prev));
+        trackPerformance("object_search", analysisDuration);
+
+        if (signature) {
+          lastAnalyzedFrameRef.current = { signature, mode, language, analyzedAt: Date.now() };
+        }
+
+        // Homing: speak only when the object appears, moves within the frame or drops out.
+        if (result.found && !previous?.found) {
+          trackEvent("object_found", {
+            target,
+            position: result.position,
+            distance: result.distance,
+            language: language,
+            analysis_duration_ms: analysisDuration,
+          });
+          speak(t.objectFound(target, result.position, result.distance), "description");
+        } else if (
+          result.found &&
+          previous &&
+          (previous.position !== result.position || previous.distance !== result.distance)
+        ) {
+          speak(t.objectMoved(result.position, result.distance), "description");
+        } else if (!result.found && previous?.found) {
+          speak(t.objectLost(target), "description");
+        }
+      } else if (mode === "currency") {
+        const result = await identifyCurrency(imageSrc, language, analysisOptions);
+        if (isStale(result.requestId)) return;
+        const analysisDuration = Math.round(performance.now() - analysisStartTime);
+
+        setCurrency(result);
+
+        trackEvent("image_analyzed", {
+          mode: "currency",
+          language: language,
+          notes_detected: result.notes.length,
+          denominations: result.notes.map((n) => n.denomination).join(","),
+          total_amount: result.total,
+          confidence: Number(result.confidence.toFixed(2)),
+          analysis_duration_ms: analysisDuration,
+          total_analyses: imageAnalysisCountRef.current,
+        });
+        trackPerformance("currency_identification", analysisDuration);
+
+        if (signature) {
+          lastAnalyzedFrameRef.current = { signature, mode, language, analyzedAt: Date.now() };
+        }
+
+        speak(
+          result.notes.length === 0
+            ? t.noNoteFound
+            : result.confidence < MIN_CURRENCY_CONFIDENCE
+            ? t.repositionNote
+            : t.currencyResult(result.notes, result.total),
+          "description"
+        );
+      } else if (mode === "read") {
+        const result = await readText(imageSrc, language, analysisOptions);
+        if (isStale(result.requestId)) return;
+        const analysisDuration = Math.round(performance.now() - analysisStartTime);
+        const chunks = splitIntoChunks(result.text);
+
+        trackEvent("image_analyzed", {
+          mode: "read",
+          language: language,
+          text_length: result.text.length,
+          chunk_count: chunks.length,
+          analysis_duration_ms: analysisDuration,
+          total_analyses: imageAnalysisCountRef.current,
+        });
+        trackPerformance("text_reading", analysisDuration);
+
+        if (chunks.length === 0) {
+          setReading(null);
+          speak(t.noTextFound, "command");
+        } else {
+          speakReadingChunk({ summary: result.summary, chunks, index: 0 }, 0);
+        }
+      } else if (mode === "navigation") {
+        const result = await analyzeForNavigation(imageSrc, language, analysisOptions);
+        if (isStale(result.requestId)) return;
+        // Felt and heard first: the spoken warning takes a few seconds to reach the hazard.
+        vibrateForHazards(result.hazards);
+        playHazardEarcons(result.hazards);
         const analysisDuration = Math.round(performance.now() - analysisStartTime);
         
         setAnalysis((prev) => ({
-          objects: prev?.objects || [],
+          objects: result.objects,
           description: prev?.description || "",
           hazards: result.hazards,
           navigation: result.navigation,
@@ -263,7 +1066,8 @@ function App() {
           mode: "navigation",
           language: language,
           hazards_detected: result.hazards.length,
-          hazard_types: result.hazards.join(","),
+          critical_hazards: result.hazards.filter((h) => h.severity === "critical").length,
+          hazard_types: result.hazards.map((h) => h.type).join(","),
           has_navigation_guidance: !!result.navigation,
           navigation_length: result.navigation?.length || 0,
           analysis_duration_ms: analysisDuration,
@@ -273,16 +1077,25 @@ function App() {
         // Track performance
         trackPerformance("navigation_analysis", analysisDuration);
 
-        if (!isPaused && !isSpeaking) {
-          speak(
+        if (signature) {
+          lastAnalyzedFrameRef.current = { signature, mode, language, analyzedAt: Date.now() };
+        }
+
+        const backOnline = leaveOfflineMode();
+        if (!isPaused) {
+          announce(
+            { description: result.navigation, hazards: result.hazards, objects: result.objects },
             result.hazards.length > 0
               ? `${t.detectedHazards(result.hazards)}. ${result.navigation}`
               : result.navigation,
-            false
+            backOnline
           );
         }
       } else {
-        const result = await analyzeImage(imageSrc, language);
+        const result = await analyzeImage(imageSrc, language, analysisOptions);
+        if (isStale(result.requestId)) return;
+        vibrateForHazards(result.hazards);
+        playHazardEarcons(result.hazards);
         const analysisDuration = Math.round(performance.now() - analysisStartTime);
         
         setAnalysis(result);
@@ -292,9 +1105,10 @@ function App() {
           mode: "scene",
           language: language,
           hazards_detected: result.hazards.length,
-          hazard_types: result.hazards.join(","),
+          critical_hazards: result.hazards.filter((h) => h.severity === "critical").length,
+          hazard_types: result.hazards.map((h) => h.type).join(","),
           objects_detected: result.objects.length,
-          objects: result.objects.join(","),
+          objects: result.objects.map((o) => o.name).join(","),
           description_length: result.description.length,
           analysis_duration_ms: analysisDuration,
           total_analyses: imageAnalysisCountRef.current,
@@ -303,16 +1117,39 @@ function App() {
         // Track performance
         trackPerformance("scene_analysis", analysisDuration);
 
-        if (!isPaused && !isSpeaking) {
-          speak(
+        if (signature) {
+          lastAnalyzedFrameRef.current = { signature, mode, language, analyzedAt: Date.now() };
+        }
+
+        const backOnline = leaveOfflineMode();
+        if (!isPaused) {
+          announce(
+            result,
             result.hazards.length > 0
               ? `${t.detectedHazards(result.hazards)}. ${result.description}`
               : result.description,
-            false
+            backOnline
           );
         }
       }
     } catch (error) {
+      if (isAbortError(error)) {
+        trackEvent("analysis_cancelled", { mode, language });
+        return;
+      }
+
+      let offlineFailed = false;
+      if ((mode === "scene" || mode === "navigation") && imageSrc && controller && isCloudUnavailable(error)) {
+        try {
+          await analyzeOffline(imageSrc, controller.signal, analysisStartTime);
+          return;
+        } catch (offlineError) {
+          console.error("Offline detector failed:", offlineError);
+          offlineFailed = true;
+          setOfflineDetectorFailed(true);
+        }
+      }
+
       const errorDuration = Math.round(performance.now() - analysisStartTime);
       console.error("Error analyzing image:", error);
       
@@ -324,134 +1161,185 @@ function App() {
         analysis_count: imageAnalysisCountRef.current,
       });
       
-      speak(t.errorAnalyzing, true);
+      speak(
+        offlineFailed ? t.offlineDetectorUnavailable : navigator.onLine ? t.errorAnalyzing : t.needsConnection,
+        "command"
+      );
     } finally {
-      setIsCapturing(false);
+      // A superseded capture must not clear the flag for the one that replaced it.
+      if (!controller || analysisControllerRef.current === controller) {
+        analysisControllerRef.current = null;
+        setIsCapturing(false);
+      }
     }
-  }, [isPaused, isSpeaking, mode, language, t]);
+  }, [isPaused, mode, language, t, search]);
 
   useEffect(() => {
-    const interval = 10;
-    let timeLeft = interval;
+    // Results for the previous mode or language must never reach the UI or speech.
+    analysisControllerRef.current?.abort();
+    noveltyFilterRef.current.reset();
+  }, [mode, language]);
 
-    analysisIntervalRef.current = window.setInterval(() => {
-      if (isPaused || isSpeaking) {
-        timeLeft = interval;
-        return;
-      }
+  useEffect(() => {
+    // Switching modes by any other route (e.g. a tab) abandons the search.
+    if (mode !== "find") setSearch(null);
+  }, [mode]);
 
-      if (timeLeft <= 0) {
-        handleCapture();
-        timeLeft = interval;
-      } else {
-        timeLeft--;
-      }
-    }, 1000);
+  useEffect(() => {
+    // Earlier answers were given in the previous language.
+    askControllerRef.current?.abort();
+    setConversation([]);
+  }, [language]);
+
+  useEffect(() => {
+    if (pendingCapture && !isSpeaking && !isCapturing) {
+      setPendingCapture(false);
+      handleCapture({ force: true });
+    }
+  }, [pendingCapture, isSpeaking, isCapturing, handleCapture]);
+
+  // The scheduler outlives individual renders, so it reads the latest state through refs.
+  const handleCaptureRef = useRef(handleCapture);
+  const captureBlockedRef = useRef(false);
+  const modeRef = useRef(mode);
+  useEffect(() => {
+    handleCaptureRef.current = handleCapture;
+    // Read mode only captures on request ("read this"), never on a timer.
+    // Speech does not block captures: the queue decides what is heard.
+    captureBlockedRef.current = isPaused || isAnalysisPaused || isCapturing || mode === "read";
+    modeRef.current = mode;
+  });
+
+  useEffect(() => {
+    const scheduler = createCaptureScheduler({
+      policy: capturePolicy,
+      getMode: () => modeRef.current,
+      isBlocked: () => captureBlockedRef.current,
+      onCapture: () => handleCaptureRef.current(),
+    });
+    scheduler.start();
+
+    return () => scheduler.stop();
+  }, [capturePolicy]);
+
+  useEffect(() => {
+    // Loads the bundled offline model before it is needed: once the app has settled on an
+    // unmetered connection, or as soon as the browser reports going offline (the weights may
+    // still be in the HTTP cache). Otherwise the first cloud failure loads it. If it cannot
+    // load, the user is told once that there is no fallback.
+    let reported = false;
+    const preload = () => {
+      preloadOfflineDetector().catch((error) => {
+        console.error("Offline detector could not be loaded:", error);
+        setOfflineDetectorFailed(true);
+        if (reported) return;
+        reported = true;
+        trackError(error instanceof Error ? error : new Error(String(error)), {
+          context: "offline_detector_preload",
+        });
+        // The latest render's speech and strings, not those of the first one.
+        const context = commandContextRef.current;
+        context?.speak(context.t.offlineDetectorUnavailable, "description");
+      });
+    };
 
+    const timer = isUnmeteredConnection() ? window.setTimeout(preload, 5000) : null;
+    window.addEventListener("offline", preload);
+    return () => {
+      if (timer) clearTimeout(timer);
+      window.removeEventListener("offline", preload);
+    };
+  }, []);
+
+  useEffect(() => {
     return () => {
-      if (analysisIntervalRef.current) {
-        clearInterval(analysisIntervalRef.current);
-      }
       if (pauseTimeoutRef.current) {
         clearTimeout(pauseTimeoutRef.current);
       }
     };
-  }, [handleCapture, isPaused, isSpeaking]);
+  }, []);
 
   useEffect(() => {
     if (browserSupportsSpeechRecognition && isMicrophoneAvailable) {
-      SpeechRecognition.startListening({ continuous: true });
+      SpeechRecognition.startListening({ continuous: true, language: locale.speechLang });
     }
 
     return () => {
       SpeechRecognition.stopListening();
     };
-  }, [browserSupportsSpeechRecognition, isMicrophoneAvailable]);
+  }, [browserSupportsSpeechRecognition, isMicrophoneAvailable, locale.speechLang]);
 
-  const speak = (text: string, isCommand: boolean) => {
-    if (speechRef.current) {
-      window.speechSynthesis.cancel();
-    }
-
-    const voices = window.speechSynthesis.getVoices();
-    const savedVoice = localStorage.getItem("speechVoice");
-    const savedRate = parseFloat(localStorage.getItem("speechRate") || "1");
-    const savedPitch = parseFloat(localStorage.getItem("speechPitch") || "1");
-
-    const voice = savedVoice
-      ? voices.find((v) => v.name === savedVoice)
-      : voices.find((v) => v.lang === "en-US" && v.name.includes("Google")) ||
-        voices[0];
+  useEffect(() => speechQueue.subscribe(setIsSpeaking), []);
 
-    speechRef.current = new SpeechSynthesisUtterance(text);
+  useEffect(() => {
+    const wakeWindow = wakeWindowRef.current;
+    return () => wakeWindow.dispose();
+  }, []);
 
-    if (voice) {
-      speechRef.current.voice = voice;
-    }
-    speechRef.current.rate = savedRate;
-    speechRef.current.pitch = savedPitch;
+  const speak = (text: string, priority: SpeechPriority) => {
+    speechQueue.speak({
+      text,
+      priority,
+      lang: locale.speechLang,
+      voice: pickVoice(window.speechSynthesis.getVoices(), language, getSpeechVoice()),
+      rate: getSpeechRate(),
+      pitch: getSpeechPitch(),
+      onStart: () => {
+        speakingStartTimeRef.current = performance.now();
+        lastSpokenRef.current = text;
 
-    speechRef.current.onstart = () => {
-      setIsSpeaking(true);
-      speakingStartTimeRef.current = performance.now();
-      
-      // Track speech start
-      trackEngagement("speech_started", {
-        text_length: text.length,
-        is_command: isCommand,
-        language: language,
-      });
-    };
-    
-    speechRef.current.onend = () => {
-      setIsSpeaking(false);
-      
-      // Calculate speaking duration
-      if (speakingStartTimeRef.current) {
-        const speakingDuration = Math.round(performance.now() - speakingStartTimeRef.current);
-        totalSpeakingTimeRef.current += speakingDuration;
-        
-        // Track speech completion
-        trackEngagement("speech_completed", {
+        // Track speech start
+        trackEngagement("speech_started", {
           text_length: text.length,
-          speaking_duration_ms: speakingDuration,
-          total_speaking_time_ms: totalSpeakingTimeRef.current,
-          is_command: isCommand,
+          priority,
           language: language,
         });
-        
-        speakingStartTimeRef.current = null;
-      }
+      },
+      onEnd: (interrupted) => {
+        // Calculate speaking duration
+        if (speakingStartTimeRef.current) {
+          const speakingDuration = Math.round(performance.now() - speakingStartTimeRef.current);
+          totalSpeakingTimeRef.current += speakingDuration;
 
-      if (isCommand) {
-        if (pauseTimeoutRef.current) {
-          clearTimeout(pauseTimeoutRef.current);
+          // Track speech completion
+          trackEngagement("speech_completed", {
+            text_length: text.length,
+            speaking_duration_ms: speakingDuration,
+            total_speaking_time_ms: totalSpeakingTimeRef.current,
+            priority,
+            interrupted,
+            language: language,
+          });
+
+          speakingStartTimeRef.current = null;
         }
 
-        pauseTimeoutRef.current = window.setTimeout(() => {
-          setIsPaused(false);
-          pauseTimeoutRef.current = null;
-        }, 2000);
-      }
-    };
+        if (priority === "command") {
+          if (pauseTimeoutRef.current) {
+            clearTimeout(pauseTimeoutRef.current);
+          }
 
-    window.speechSynthesis.speak(speechRef.current);
+          pauseTimeoutRef.current = window.setTimeout(() => {
+            setIsPaused(false);
+            pauseTimeoutRef.current = null;
+          }, 2000);
+        }
+      },
+    });
   };
 
-  const stopSpeaking = () => {
-    window.speechSynthesis.cancel();
-    setIsSpeaking(false);
-
+  const stopSpeaking = (method = "user_action") => {
     // Calculate interrupted speaking time
     let interruptedDuration = 0;
     if (speakingStartTimeRef.current) {
       interruptedDuration = Math.round(performance.now() - speakingStartTimeRef.current);
-      speakingStartTimeRef.current = null;
     }
 
+    speechQueue.stop();
+
     // Track speech stopped with metrics
     trackEngagement("speech_stopped", {
-      method: "user_action",
+      method,
       language: language,
       interrupted_duration_ms: interruptedDuration,
       total_speaking_time_ms: totalSpeakingTimeRef.current,
@@ -470,11 +1358,9 @@ function App() {
     return (
       <div className="min-h-screen bg-gray-900 text-white flex items-center justify-center">
         <div className="text-center p-8">
-          <h1 className="text-2xl font-bold mb-4">Browser Not Supported</h1>
-          <p>Sorry, your browser doesn't support speech recognition.</p>
-          <p className="mt-2 text-gray-400">
-            Please try using Chrome, Edge, or Safari.
-          </p>
+          <h1 className="text-2xl font-bold mb-4">{t.browserNotSupported}</h1>
+          <p>{t.browserNotSupportedMessage}</p>
+          <p className="mt-2 text-gray-400">{t.browserNotSupportedHint}</p>
         </div>
       </div>
     );
@@ -484,13 +1370,9 @@ function App() {
     return (
       <div className="min-h-screen bg-gray-900 text-white flex items-center justify-center">
         <div className="text-center p-8">
-          <h1 className="text-2xl font-bold mb-4">
-            Microphone Access Required
-          </h1>
-          <p>Please allow microphone access to use voice commands.</p>
-          <p className="mt-2 text-gray-400">
-            You can change this in your browser settings.
-          </p>
+          <h1 className="text-2xl font-bold mb-4">{t.microphoneRequired}</h1>
+          <p>{t.microphoneRequiredMessage}</p>
+          <p className="mt-2 text-gray-400">{t.microphoneRequiredHint}</p>
         </div>
       </div>
     );
@@ -507,14 +1389,27 @@ function App() {
           <div className="flex items-center gap-2">
             <button
               onClick={handleLanguageToggle}
+              title={locale.nativeName}
               className="flex items-center gap-1.5 bg-indigo-600/20 px-3 py-1.5 rounded-full hover:bg-indigo-600/30 transition-colors text-sm"
             >
               <Languages className="w-4 h-4" />
               <span className="font-medium">{language.toUpperCase()}</span>
             </button>
+            {isOffline && (
+              <div className="flex items-center gap-1 bg-amber-500/80 text-black px-2.5 py-1.5 rounded-full text-xs font-semibold">
+                <WifiOff className="w-4 h-4" />
+                {t.offlineBadge}
+              </div>
+            )}
+            {offlineDetectorFailed && (
+              <div className="flex items-center gap-1 bg-red-600/80 text-white px-2.5 py-1.5 rounded-full text-xs font-semibold">
+                <WifiOff className="w-4 h-4" />
+                {t.offlineUnavailableBadge}
+              </div>
+            )}
             <div className="flex items-center gap-2">
               <button
-                onClick={isSpeaking ? stopSpeaking : undefined}
+                onClick={isSpeaking ? () => stopSpeaking() : undefined}
                 className={`p-1.5 rounded-full transition-colors ${
                   isSpeaking
                     ? "bg-red-500/70 hover:bg-red-600/70"
@@ -528,8 +1423,15 @@ function App() {
                 )}
               </button>
               <div
+                title={
+                  listeningMode === "wakePhrase" && !isWakeWindowOpen
+                    ? t.waitingForWakePhrase(wakePhrases(language)[0])
+                    : undefined
+                }
                 className={`p-1.5 rounded-full transition-colors ${
-                  listening ? "bg-green-500/70" : "bg-indigo-600/70"
+                  listening && (listeningMode === "always" || isWakeWindowOpen)
+                    ? "bg-green-500/70"
+                    : "bg-indigo-600/70"
                 }`}
               >
                 <Mic className="w-5 h-5" />
@@ -546,14 +1448,26 @@ function App() {
             audio={false}
             screenshotFormat="image/jpeg"
             videoConstraints={videoConstraints}
+            onUserMedia={() => setWebcamVideo(webcamRef.current?.video ?? null)}
             className="w-full h-full object-cover"
           />
+          {overlay.enabled && (
+            <DetectionOverlay
+              video={webcamVideo}
+              hazards={analysis?.hazards ?? []}
+              objects={analysis?.objects ?? []}
+              labelSize={overlay.labelSize}
+              language={language}
+            />
+          )}
           <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-indigo-600/90 text-white px-4 py-2 rounded-full flex items-center gap-2 shadow-lg backdrop-blur-sm text-sm">
             <Camera className="w-5 h-5" />
             {isCapturing
               ? t.analyzing
               : isPaused
               ? t.listeningToCommand
+              : isAnalysisPaused
+              ? t.autoAnalysisPaused
               : t.autoAnalyzing}
           </div>
         </div>
@@ -590,20 +1504,73 @@ function App() {
                 });
               }}
             />
+            <Tab
+              icon={<BookOpen className="w-4 h-4" />}
+              label={t.readMode}
+              active={mode === "read"}
+              onClick={() => {
+                const previousMode = mode;
+                setMode("read");
+                trackEvent("mode_switched", {
+                  from_mode: previousMode,
+                  to_mode: "read",
+                  method: "button_click",
+                  language: language,
+                });
+              }}
+            />
+            <Tab
+              icon={<Banknote className="w-4 h-4" />}
+              label={t.currencyMode}
+              active={mode === "currency"}
+              onClick={() => {
+                const previousMode = mode;
+                setMode("currency");
+                trackEvent("mode_switched", {
+                  from_mode: previousMode,
+                  to_mode: "currency",
+                  method: "button_click",
+                  language: language,
+                });
+              }}
+            />
           </div>
 
           <div className="p-4 text-white">
-            {analysis?.hazards && analysis.hazards.length > 0 && (
+            {conversation.length > 0 && (
+              <div className="mb-3 p-2.5 bg-indigo-500/20 rounded-lg border border-indigo-500/30 flex items-start gap-2 text-sm">
+                <MessageCircleQuestion className="w-5 h-5 text-indigo-300 flex-shrink-0 mt-0.5" />
+                <div>
+                  <p className="text-indigo-200/80">
+                    {t.youAsked}: {conversation[conversation.length - 1].question}
+                  </p>
+                  <p className="text-white">{conversation[conversation.length - 1].answer}</p>
+                </div>
+              </div>
+            )}
+
+            {(mode === "scene" || mode === "navigation") &&
+              analysis?.hazards &&
+              analysis.hazards.length > 0 && (
               <div className="mb-3 p-2.5 bg-red-500/20 rounded-lg border border-red-500/30 flex items-start gap-2">
                 <AlertTriangle className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" />
                 <div>
                   <h3 className="font-semibold text-red-400 mb-1 text-sm">
                     {t.hazardsDetected}
                   </h3>
-                  <ul className="list-disc list-inside space-y-0.5 text-sm">
+                  <ul className="space-y-1 text-sm">
                     {analysis.hazards.map((hazard, i) => (
-                      <li key={i} className="text-red-200">
-                        {hazard}
+                      <li key={i} className="text-red-200 flex items-center gap-2">
+                        <span
+                          className={`px-1.5 py-0.5 rounded text-xs font-semibold ${severityStyles[hazard.severity]}`}
+                        >
+                          {t.severityNames[hazard.severity]}
+                        </span>
+                        <span>
+                          <span className="font-medium">{t.hazardNames[hazard.type]}</span>{" "}
+                          {hazard.detail && <span>({hazard.detail}) </span>}
+                          <span className="text-red-200/80">{t.hazardLocation(hazard)}</span>
+                        </span>
                       </li>
                     ))}
                   </ul>
@@ -611,15 +1578,133 @@ function App() {
               </div>
             )}
 
-            <p className="text-white/90 leading-relaxed text-sm">
-              {mode === "navigation"
-                ? analysis?.navigation || t.analyzingNavigation
-                : analysis?.description || t.analyzingScene}
-            </p>
+            {mode === "find" ? (
+              search ? (
+                <div className="flex items-start justify-between gap-3 text-sm">
+                  <div className="flex items-start gap-2">
+                    <Search className="w-5 h-5 text-indigo-300 flex-shrink-0 mt-0.5" />
+                    <div>
+                      <p className="font-semibold text-white">{t.searchingFor(search.target)}</p>
+                      <p className={search.location?.found ? "text-green-300" : "text-white/60"}>
+                        {search.location?.found
+                          ? t.objectInView(search.location.position, search.location.distance)
+                          : t.objectNotInView}
+                      </p>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => stopSearch("button_click")}
+                    className="px-3 py-1.5 rounded-full bg-red-500/70 hover:bg-red-600/70 transition-colors text-xs font-semibold"
+                  >
+                    {t.stopSearch}
+                  </button>
+                </div>
+              ) : (
+                <p className="text-white/90 leading-relaxed text-sm">{t.findModeHint}</p>
+              )
+            ) : mode === "currency" ? (
+              currency && currency.notes.length > 0 ? (
+                <div className="space-y-1.5 text-sm">
+                  <ul className="space-y-1">
+                    {currency.notes.map((note, i) => (
+                      <li key={i} className="flex items-center justify-between">
+                        <span className="font-semibold text-white">₹{note.denomination}</span>
+                        <span
+                          className={
+                            note.confidence < MIN_CURRENCY_CONFIDENCE ? "text-amber-300" : "text-white/60"
+                          }
+                        >
+                          {t.currencyConfidence(note.confidence)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                  {currency.notes.length > 1 && (
+                    <p className="font-semibold text-white border-t border-white/10 pt-1.5">
+                      {t.currencyTotal(currency.total)}
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <p className="text-white/90 leading-relaxed text-sm">{t.currencyModeHint}</p>
+              )
+            ) : mode === "read" ? (
+              reading ? (
+                <div className="space-y-1.5 text-sm leading-relaxed">
+                  <p className="text-xs text-white/60">
+                    {reading.summary && `${reading.summary} · `}
+                    {t.readingPart(reading.index + 1, reading.chunks.length)}
+                  </p>
+                  {reading.chunks.map((chunk, i) => (
+                    <p key={i} className={i === reading.index ? "text-white" : "text-white/50"}>
+                      {chunk}
+                    </p>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-white/90 leading-relaxed text-sm">{t.readModeHint}</p>
+              )
+            ) : (
+              <p className="text-white/90 leading-relaxed text-sm">
+                {mode === "navigation"
+                  ? analysis?.navigation || t.analyzingNavigation
+                  : analysis?.description || t.analyzingScene}
+              </p>
+            )}
           </div>
         </div>
 
-        <VoiceSettings onVoiceSettingsChange={(text) => speak(text, false)} />
+        <VoiceSettings
+          language={language}
+          onVoiceSettingsChange={(text) => speak(text, "command")}
+        />
+        <ListeningSettings
+          language={language}
+          onListeningChange={(settings) => {
+            trackEvent("listening_settings_changed", {
+              mode: settings.mode,
+              custom_wake_phrase: !!settings.customPhrase,
+            });
+            setListeningMode(settings.mode);
+            if (settings.mode === "always") wakeWindowRef.current.close();
+          }}
+        />
+        <HapticSettings
+          language={language}
+          onHapticsChange={(settings) => {
+            trackEvent("haptics_settings_changed", {
+              enabled: settings.enabled,
+              intensity: settings.intensity,
+            });
+          }}
+        />
+        <EarconSettings
+          language={language}
+          onEarconsChange={(settings) => {
+            trackEvent("earcon_settings_changed", {
+              enabled: settings.enabled,
+              volume: settings.volume,
+              earcons_only: settings.earconsOnly,
+            });
+          }}
+        />
+        <AnalysisSettings
+          language={language}
+          onCapturePolicyChange={(policy) => {
+            trackEvent("capture_policy_changed", {
+              from_policy: capturePolicy,
+              to_policy: policy,
+            });
+            setCapturePolicy(policy);
+          }}
+          onOverlayChange={(settings) => {
+            trackEvent("overlay_settings_changed", {
+              enabled: settings.enabled,
+              label_size: settings.labelSize,
+            });
+            setOverlay(settings);
+          }}
+        />
       </main>
     </div>
   );
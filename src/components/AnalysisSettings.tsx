@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, SlidersHorizontal } from 'lucide-react';
+import { getLocale, type Language } from '../locales';
+import {
+  FRAME_CHANGE_SENSITIVITIES,
+  FrameChangeSensitivity,
+  getFrameChangeSensitivity,
+  setFrameChangeSensitivity,
+} from '../services/frameDiff';
+import {
+  CAPTURE_POLICIES,
+  CapturePolicy,
+  getCapturePolicy,
+  requestMotionPermission,
+  setCapturePolicy,
+} from '../services/captureScheduler';
+import {
+  NOVELTY_SENSITIVITIES,
+  NoveltySensitivity,
+  NoveltySettings,
+  UNCHANGED_CUES,
+  UnchangedCue,
+  getNoveltySettings,
+  setNoveltySettings,
+} from '../services/noveltyFilter';
+import {
+  OVERLAY_LABEL_SIZES,
+  OverlayLabelSize,
+  OverlaySettings,
+  getOverlaySettings,
+  setOverlaySettings,
+} from '../services/overlaySettings';
+
+interface AnalysisSettingsProps {
+  language: Language;
+  onCapturePolicyChange: (policy: CapturePolicy) => void;
+  onOverlayChange: (settings: OverlaySettings) => void;
+}
+
+export function AnalysisSettings({ language, onCapturePolicyChange, onOverlayChange }: AnalysisSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [sensitivity, setSensitivity] = useState<FrameChangeSensitivity>(getFrameChangeSensitivity);
+  const [policy, setPolicy] = useState<CapturePolicy>(getCapturePolicy);
+  const [novelty, setNovelty] = useState<NoveltySettings>(getNoveltySettings);
+  const [overlay, setOverlay] = useState<OverlaySettings>(getOverlaySettings);
+
+  const t = getLocale(language).strings;
+
+  const updateNovelty = (settings: NoveltySettings) => {
+    setNovelty(settings);
+    setNoveltySettings(settings);
+  };
+
+  const updateOverlay = (settings: OverlaySettings) => {
+    setOverlay(settings);
+    setOverlaySettings(settings);
+    onOverlayChange(settings);
+  };
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-md rounded-2xl shadow-xl overflow-hidden ring-1 ring-white/10">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-4 py-3 flex items-center justify-between text-left text-white/90 hover:bg-white/5 transition-colors"
+      >
+        <div className="flex items-center gap-2">
+          <SlidersHorizontal className="w-5 h-5" />
+          <span className="font-medium">{t.analysisSettings}</span>
+        </div>
+        {isOpen ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
+      </button>
+
+      {isOpen && (
+        <div className="p-4 space-y-4 border-t border-white/10">
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-white/90">
+              {t.capturePolicy}
+            </label>
+            <select
+              value={policy}
+              onChange={(e) => {
+                const value = e.target.value as CapturePolicy;
+                if (value === 'motion') {
+                  // Must run inside the user gesture for iOS to show the prompt.
+                  void requestMotionPermission();
+                }
+                setPolicy(value);
+                setCapturePolicy(value);
+                onCapturePolicyChange(value);
+              }}
+              className="w-full bg-gray-700/50 text-white rounded-lg px-3 py-2 border border-white/10"
+            >
+              {CAPTURE_POLICIES.map((option) => (
+                <option key={option} value={option}>
+                  {t.capturePolicyNames[option]}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-white/60">{t.capturePolicyHints[policy]}</p>
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-white/90">
+              {t.frameChangeSensitivity}
+            </label>
+            <select
+              value={sensitivity}
+              onChange={(e) => {
+                const value = e.target.value as FrameChangeSensitivity;
+                setSensitivity(value);
+                setFrameChangeSensitivity(value);
+              }}
+              className="w-full bg-gray-700/50 text-white rounded-lg px-3 py-2 border border-white/10"
+            >
+              {FRAME_CHANGE_SENSITIVITIES.map((level) => (
+                <option key={level} value={level}>
+                  {t.frameChangeSensitivityNames[level]}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-white/60">{t.frameChangeSensitivityHint}</p>
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-white/90">
+              {t.noveltySensitivity}
+            </label>
+            <select
+              value={novelty.sensitivity}
+              onChange={(e) => updateNovelty({ ...novelty, sensitivity: e.target.value as NoveltySensitivity })}
+              className="w-full bg-gray-700/50 text-white rounded-lg px-3 py-2 border border-white/10"
+            >
+              {NOVELTY_SENSITIVITIES.map((level) => (
+                <option key={level} value={level}>
+                  {t.noveltySensitivityNames[level]}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-white/60">{t.noveltySensitivityHint}</p>
+          </div>
+
+          {novelty.sensitivity !== 'off' && (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-white/90">
+                {t.unchangedCue}
+              </label>
+              <select
+                value={novelty.unchangedCue}
+                onChange={(e) => updateNovelty({ ...novelty, unchangedCue: e.target.value as UnchangedCue })}
+                className="w-full bg-gray-700/50 text-white rounded-lg px-3 py-2 border border-white/10"
+              >
+                {UNCHANGED_CUES.map((cue) => (
+                  <option key={cue} value={cue}>
+                    {t.unchangedCueNames[cue]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm font-medium text-white/90">
+              <input
+                type="checkbox"
+                checked={overlay.enabled}
+                onChange={(e) => updateOverlay({ ...overlay, enabled: e.target.checked })}
+                className="w-4 h-4 accent-indigo-400"
+              />
+              {t.detectionOverlay}
+            </label>
+            <p className="text-xs text-white/60">{t.detectionOverlayHint}</p>
+          </div>
+
+          {overlay.enabled && (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-white/90">
+                {t.overlayLabelSize}
+              </label>
+              <select
+                value={overlay.labelSize}
+                onChange={(e) => updateOverlay({ ...overlay, labelSize: e.target.value as OverlayLabelSize })}
+                className="w-full bg-gray-700/50 text-white rounded-lg px-3 py-2 border border-white/10"
+              >
+                {OVERLAY_LABEL_SIZES.map((size) => (
+                  <option key={size} value={size}>
+                    {t.overlayLabelSizeNames[size]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useEffect, useRef, useState } from 'react';
+import { getLocale, type Language } from '../locales';
+import type { BoundingBox, SceneObject } from '../services/analysisSchema';
+import type { Hazard, HazardSeverity } from '../services/hazards';
+import type { OverlayLabelSize } from '../services/overlaySettings';
+
+interface DetectionOverlayProps {
+  // The video the boxes are drawn over; its intrinsic size is needed to undo object-cover.
+  video: HTMLVideoElement | null;
+  hazards: Hazard[];
+  objects: SceneObject[];
+  labelSize: OverlayLabelSize;
+  language: Language;
+}
+
+const LABEL_SIZE_CLASSES: Record<OverlayLabelSize, string> = {
+  small: 'text-sm',
+  medium: 'text-lg',
+  large: 'text-2xl',
+};
+
+const HAZARD_STYLES: Record<HazardSeverity, { box: string; label: string }> = {
+  critical: { box: 'border-red-500', label: 'bg-red-600 text-white' },
+  warning: { box: 'border-yellow-400', label: 'bg-yellow-400 text-black' },
+  info: { box: 'border-sky-400', label: 'bg-sky-400 text-black' },
+};
+
+const OBJECT_STYLE = { box: 'border-white border-dashed', label: 'bg-white text-black' };
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+// Maps a box in frame fractions to pixels in the container, given that the video is
+// scaled to cover the container and centred, with the overflow cropped.
+function toPixels(box: BoundingBox, container: Size, video: Size) {
+  const scale = Math.max(container.width / video.width, container.height / video.height);
+  const width = video.width * scale;
+  const height = video.height * scale;
+  const offsetX = (container.width - width) / 2;
+  const offsetY = (container.height - height) / 2;
+  return {
+    left: offsetX + box.x * width,
+    top: offsetY + box.y * height,
+    width: box.width * width,
+    height: box.height * height,
+  };
+}
+
+export function DetectionOverlay({ video, hazards, objects, labelSize, language }: DetectionOverlayProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [containerSize, setContainerSize] = useState<Size | null>(null);
+  const [videoSize, setVideoSize] = useState<Size | null>(null);
+
+  const t = getLocale(language).strings;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setContainerSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!video) return;
+
+    // The intrinsic size is only known once metadata loads and changes if the camera switches.
+    const update = () => {
+      if (video.videoWidth && video.videoHeight) {
+        setVideoSize({ width: video.videoWidth, height: video.videoHeight });
+      }
+    };
+    update();
+    video.addEventListener('loadedmetadata', update);
+    video.addEventListener('resize', update);
+    return () => {
+      video.removeEventListener('loadedmetadata', update);
+      video.removeEventListener('resize', update);
+    };
+  }, [video]);
+
+  // Objects first so hazards are drawn on top of them.
+  const items = [
+    ...objects.flatMap((object) =>
+      object.boxes.map((box) => ({ box, label: object.label, style: OBJECT_STYLE }))
+    ),
+    ...hazards.flatMap((hazard) =>
+      hazard.box ? [{ box: hazard.box, label: t.hazardNames[hazard.type], style: HAZARD_STYLES[hazard.severity] }] : []
+    ),
+  ];
+
+  return (
+    // Decorative for sighted helpers; everything here is also spoken.
+    <div ref={containerRef} className="absolute inset-0 pointer-events-none overflow-hidden" aria-hidden="true">
+      {containerSize &&
+        videoSize &&
+        items.map(({ box, label, style }, i) => {
+          const position = toPixels(box, containerSize, videoSize);
+          // Labels go above the box, or inside it when the box touches the top edge.
+          const labelPlacement = position.top > 48 ? '-translate-y-full' : '';
+          return (
+            <div
+              key={i}
+              className={`absolute border-4 rounded-md ring-2 ring-black/80 ${style.box}`}
+              style={position}
+            >
+              <span
+                className={`absolute left-0 top-0 px-2 py-0.5 rounded font-bold whitespace-nowrap shadow-lg ${labelPlacement} ${LABEL_SIZE_CLASSES[labelSize]} ${style.label}`}
+              >
+                {label}
+              </span>
+            </div>
+          );
+        })}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Headphones } from 'lucide-react';
+import { getLocale, type Language } from '../locales';
+import { isAudioSupported } from '../services/audioCues';
+import {
+  EARCON_CATEGORIES,
+  EarconSettings as EarconSettingsValue,
+  getEarconSettings,
+  playEarcon,
+  setEarconSettings,
+} from '../services/earcons';
+
+interface EarconSettingsProps {
+  language: Language;
+  onEarconsChange: (settings: EarconSettingsValue) => void;
+}
+
+const PREVIEW_SPACING_MS = 600;
+
+export function EarconSettings({ language, onEarconsChange }: EarconSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [settings, setSettings] = useState<EarconSettingsValue>(getEarconSettings);
+
+  const t = getLocale(language).strings;
+  const supported = isAudioSupported();
+
+  const update = (next: EarconSettingsValue) => {
+    setSettings(next);
+    setEarconSettings(next);
+    onEarconsChange(next);
+  };
+
+  // "Sounds only" without the sounds would leave automatic results silent.
+  const setEnabled = (enabled: boolean) => {
+    update({ ...settings, enabled, earconsOnly: enabled && settings.earconsOnly });
+  };
+
+  // Every category once, swept from left to right so the panning is heard too.
+  const previewEarcons = () => {
+    EARCON_CATEGORIES.forEach((category, i) => {
+      const pan = EARCON_CATEGORIES.length > 1 ? (i / (EARCON_CATEGORIES.length - 1)) * 2 - 1 : 0;
+      playEarcon(category, pan, settings.volume, i * PREVIEW_SPACING_MS);
+    });
+  };
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-md rounded-2xl shadow-xl overflow-hidden ring-1 ring-white/10">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-4 py-3 flex items-center justify-between text-left text-white/90 hover:bg-white/5 transition-colors"
+      >
+        <div className="flex items-center gap-2">
+          <Headphones className="w-5 h-5" />
+          <span className="font-medium">{t.earconSettings}</span>
+        </div>
+        {isOpen ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
+      </button>
+
+      {isOpen && (
+        <div className="p-4 space-y-4 border-t border-white/10">
+          {!supported && <p className="text-sm text-amber-300">{t.earconsUnsupported}</p>}
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm font-medium text-white/90">
+              <input
+                type="checkbox"
+                checked={settings.enabled}
+                disabled={!supported}
+                onChange={(e) => setEnabled(e.target.checked)}
+                className="w-4 h-4 accent-indigo-400"
+              />
+              {t.earconsEnabled}
+            </label>
+            <p className="text-xs text-white/60">{t.earconsHint}</p>
+          </div>
+
+          {supported && settings.enabled && (
+            <>
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-white/90">
+                  {t.earconVolume(settings.volume)}
+                </label>
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.1"
+                  value={settings.volume}
+                  onChange={(e) => update({ ...settings, volume: parseFloat(e.target.value) })}
+                  className="w-full accent-indigo-400"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm font-medium text-white/90">
+                  <input
+                    type="checkbox"
+                    checked={settings.earconsOnly}
+                    onChange={(e) => update({ ...settings, earconsOnly: e.target.checked })}
+                    className="w-4 h-4 accent-indigo-400"
+                  />
+                  {t.earconsOnly}
+                </label>
+                <p className="text-xs text-white/60">{t.earconsOnlyHint}</p>
+              </div>
+
+              <button
+                onClick={previewEarcons}
+                className="w-full bg-indigo-600/70 hover:bg-indigo-700/70 text-white py-2 rounded-lg transition-colors"
+              >
+                {t.previewEarcons}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronUp, Vibrate } from 'lucide-react';
+import { getLocale, pickVoice, type Language } from '../locales';
+import type { ObjectPosition } from '../services/analysisSchema';
+import type { HazardSeverity } from '../services/hazards';
+import {
+  HAPTIC_INTENSITIES,
+  HapticIntensity,
+  HapticSettings as HapticSettingsValue,
+  getHapticSettings,
+  isHapticsSupported,
+  patternDuration,
+  setHapticSettings,
+  severityPattern,
+  sidePattern,
+  vibrate,
+} from '../services/haptics';
+import { speechQueue } from '../services/speechQueue';
+import { getSpeechPitch, getSpeechRate, getSpeechVoice } from '../services/voicePreferences';
+
+interface HapticSettingsProps {
+  language: Language;
+  onHapticsChange: (settings: HapticSettingsValue) => void;
+}
+
+const LESSON_SEVERITIES: HazardSeverity[] = ['critical', 'warning', 'info'];
+const LESSON_SIDES: ObjectPosition[] = ['left', 'center', 'right'];
+// Pause after each pattern before the next one is announced.
+const LESSON_GAP_MS = 700;
+
+export function HapticSettings({ language, onHapticsChange }: HapticSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [settings, setSettings] = useState<HapticSettingsValue>(getHapticSettings);
+  const lessonRef = useRef(0);
+  const lessonTimerRef = useRef<number | null>(null);
+
+  const locale = getLocale(language);
+  const t = locale.strings;
+  const supported = isHapticsSupported();
+
+  useEffect(() => {
+    return () => {
+      lessonRef.current += 1;
+      if (lessonTimerRef.current) clearTimeout(lessonTimerRef.current);
+    };
+  }, []);
+
+  const update = (next: HapticSettingsValue) => {
+    setSettings(next);
+    setHapticSettings(next);
+    onHapticsChange(next);
+  };
+
+  // Says what each pattern means, then plays it. Starting again abandons a lesson in progress.
+  const teachPatterns = () => {
+    const lesson = ++lessonRef.current;
+    if (lessonTimerRef.current) clearTimeout(lessonTimerRef.current);
+
+    const steps = [
+      ...LESSON_SEVERITIES.map((severity) => ({
+        text: t.hapticLessonSeverity[severity],
+        pattern: severityPattern(severity, settings.intensity),
+      })),
+      ...LESSON_SIDES.map((side) => ({
+        text: t.hapticLessonSide(side),
+        pattern: sidePattern(side, settings.intensity),
+      })),
+      { text: t.hapticLessonDone, pattern: [] },
+    ];
+
+    const playStep = (index: number) => {
+      const step = steps[index];
+      if (!step || lesson !== lessonRef.current) return;
+      speechQueue.speak({
+        text: step.text,
+        priority: 'command',
+        lang: locale.speechLang,
+        voice: pickVoice(window.speechSynthesis.getVoices(), language, getSpeechVoice()),
+        rate: getSpeechRate(),
+        pitch: getSpeechPitch(),
+        onEnd: (interrupted) => {
+          if (interrupted || lesson !== lessonRef.current) return;
+          vibrate(step.pattern);
+          lessonTimerRef.current = window.setTimeout(
+            () => playStep(index + 1),
+            patternDuration(step.pattern) + LESSON_GAP_MS
+          );
+        },
+      });
+    };
+
+    playStep(0);
+  };
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-md rounded-2xl shadow-xl overflow-hidden ring-1 ring-white/10">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-4 py-3 flex items-center justify-between text-left text-white/90 hover:bg-white/5 transition-colors"
+      >
+        <div className="flex items-center gap-2">
+          <Vibrate className="w-5 h-5" />
+          <span className="font-medium">{t.hapticSettings}</span>
+        </div>
+        {isOpen ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
+      </button>
+
+      {isOpen && (
+        <div className="p-4 space-y-4 border-t border-white/10">
+          {!supported && <p className="text-sm text-amber-300">{t.hapticsUnsupported}</p>}
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm font-medium text-white/90">
+              <input
+                type="checkbox"
+                checked={settings.enabled}
+                disabled={!supported}
+                onChange={(e) => update({ ...settings, enabled: e.target.checked })}
+                className="w-4 h-4 accent-indigo-400"
+              />
+              {t.hapticsEnabled}
+            </label>
+            <p className="text-xs text-white/60">{t.hapticsHint}</p>
+          </div>
+
+          {supported && settings.enabled && (
+            <>
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-white/90">
+                  {t.hapticIntensity}
+                </label>
+                <select
+                  value={settings.intensity}
+                  onChange={(e) => update({ ...settings, intensity: e.target.value as HapticIntensity })}
+                  className="w-full bg-gray-700/50 text-white rounded-lg px-3 py-2 border border-white/10"
+                >
+                  {HAPTIC_INTENSITIES.map((intensity) => (
+                    <option key={intensity} value={intensity}>
+                      {t.hapticIntensityNames[intensity]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <button
+                onClick={teachPatterns}
+                className="w-full bg-indigo-600/70 hover:bg-indigo-700/70 text-white py-2 rounded-lg transition-colors"
+              >
+                {t.teachHaptics}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
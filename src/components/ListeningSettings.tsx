@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Ear } from 'lucide-react';
+import { getLocale, type Language } from '../locales';
+import {
+  LISTENING_MODES,
+  ListeningMode,
+  WAKE_WINDOW_MS,
+  WakeSettings,
+  getWakeSettings,
+  setWakeSettings,
+  wakePhrases,
+} from '../services/wakePhrase';
+
+interface ListeningSettingsProps {
+  language: Language;
+  onListeningChange: (settings: WakeSettings) => void;
+}
+
+export function ListeningSettings({ language, onListeningChange }: ListeningSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [settings, setSettings] = useState<WakeSettings>(getWakeSettings);
+  // Saved when the field loses focus, not on every keystroke.
+  const [phraseDraft, setPhraseDraft] = useState(settings.customPhrase);
+
+  const t = getLocale(language).strings;
+
+  const update = (next: WakeSettings) => {
+    setSettings(next);
+    setWakeSettings(next);
+    onListeningChange(next);
+  };
+
+  const savePhrase = () => {
+    const customPhrase = phraseDraft.trim();
+    setPhraseDraft(customPhrase);
+    if (customPhrase !== settings.customPhrase) update({ ...settings, customPhrase });
+  };
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-md rounded-2xl shadow-xl overflow-hidden ring-1 ring-white/10">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-4 py-3 flex items-center justify-between text-left text-white/90 hover:bg-white/5 transition-colors"
+      >
+        <div className="flex items-center gap-2">
+          <Ear className="w-5 h-5" />
+          <span className="font-medium">{t.listeningSettings}</span>
+        </div>
+        {isOpen ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
+      </button>
+
+      {isOpen && (
+        <div className="p-4 space-y-4 border-t border-white/10">
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-white/90">
+              {t.listeningMode}
+            </label>
+            <select
+              value={settings.mode}
+              onChange={(e) => update({ ...settings, mode: e.target.value as ListeningMode })}
+              className="w-full bg-gray-700/50 text-white rounded-lg px-3 py-2 border border-white/10"
+            >
+              {LISTENING_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {t.listeningModeNames[mode]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {settings.mode === 'wakePhrase' && (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-white/90">
+                {t.wakePhrase}
+              </label>
+              <input
+                type="text"
+                value={phraseDraft}
+                placeholder={getLocale(language).wakePhrases[0]}
+                onChange={(e) => setPhraseDraft(e.target.value)}
+                onBlur={savePhrase}
+                className="w-full bg-gray-700/50 text-white rounded-lg px-3 py-2 border border-white/10 placeholder:text-white/40"
+              />
+              <p className="text-xs text-white/60">
+                {t.wakePhraseHint(wakePhrases(language, settings)[0], WAKE_WINDOW_MS / 1000)}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
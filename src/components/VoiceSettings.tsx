@@ -1,50 +1,41 @@
-import React, { useState, useEffect } from 'react';
+import { useState, useEffect } from 'react';
 import { ChevronDown, ChevronUp, Volume2 } from 'lucide-react';
-import { translations, Language } from '../translations';
+import { getLocale, pickVoice, type Language } from '../locales';
+import { speechQueue } from '../services/speechQueue';
+import {
+  getSpeechPitch,
+  getSpeechRate,
+  getSpeechVoice,
+  setSpeechPitch,
+  setSpeechRate,
+  setSpeechVoice,
+  subscribeToSpeechRate,
+} from '../services/voicePreferences';
 
 interface VoiceSettingsProps {
+  language: Language;
   onVoiceSettingsChange: (text: string) => void;
 }
 
-export function VoiceSettings({ onVoiceSettingsChange }: VoiceSettingsProps) {
+export function VoiceSettings({ language, onVoiceSettingsChange }: VoiceSettingsProps) {
   const [isOpen, setIsOpen] = useState(false);
-  const [rate, setRate] = useState(() => parseFloat(localStorage.getItem('speechRate') || '1'));
-  const [pitch, setPitch] = useState(() => parseFloat(localStorage.getItem('speechPitch') || '1'));
+  const [rate, setRate] = useState(getSpeechRate);
+  const [pitch, setPitch] = useState(getSpeechPitch);
   const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
   const [selectedVoice, setSelectedVoice] = useState<string>('');
   const [settingsChanged, setSettingsChanged] = useState(false);
-  const [language, setLanguage] = useState<Language>('en');
 
-  const t = translations[language];
-
-  useEffect(() => {
-    const savedLang = localStorage.getItem('language') as Language;
-    if (savedLang && ['en', 'ml', 'hi'].includes(savedLang)) {
-      setLanguage(savedLang);
-    }
-  }, []);
+  const t = getLocale(language).strings;
 
   useEffect(() => {
     const loadVoices = () => {
       const availableVoices = window.speechSynthesis.getVoices();
       setVoices(availableVoices);
 
-      // Set default voice
-      const savedVoice = localStorage.getItem('speechVoice');
+      // Without a saved choice the picker shows the language's default voice.
+      const savedVoice = getSpeechVoice();
       if (savedVoice && availableVoices.find(v => v.name === savedVoice)) {
         setSelectedVoice(savedVoice);
-      } else {
-        // Find Google Hindi voice first
-        const defaultVoice = availableVoices.find(voice => 
-          voice.lang === 'hi-IN' && voice.name.includes('Google')
-        ) || availableVoices.find(voice => 
-          voice.name.includes('Google')
-        ) || availableVoices[0];
-        
-        if (defaultVoice) {
-          setSelectedVoice(defaultVoice.name);
-          localStorage.setItem('speechVoice', defaultVoice.name);
-        }
       }
     };
 
@@ -68,40 +59,36 @@ export function VoiceSettings({ onVoiceSettingsChange }: VoiceSettingsProps) {
     };
   }, []);
 
+  // "Speak faster" and "speak slower" move the slider too.
+  useEffect(() => subscribeToSpeechRate(setRate), []);
+
   useEffect(() => {
     if (!settingsChanged) return;
 
-    const voice = voices.find(v => v.name === selectedVoice);
-    if (voice) {
-      localStorage.setItem('speechRate', rate.toString());
-      localStorage.setItem('speechPitch', pitch.toString());
-      localStorage.setItem('speechVoice', selectedVoice);
-
-      if (window.speechSynthesis.speaking) {
-        window.speechSynthesis.cancel();
-      }
-
-      onVoiceSettingsChange(t.voiceSettingsUpdated);
-      setSettingsChanged(false);
+    setSpeechRate(rate);
+    setSpeechPitch(pitch);
+    if (selectedVoice) {
+      setSpeechVoice(selectedVoice);
     }
-  }, [selectedVoice, rate, pitch, voices, onVoiceSettingsChange, settingsChanged, t]);
+
+    onVoiceSettingsChange(t.voiceSettingsUpdated);
+    setSettingsChanged(false);
+  }, [selectedVoice, rate, pitch, onVoiceSettingsChange, settingsChanged, t]);
 
   const handleSettingChange = () => {
     setSettingsChanged(true);
   };
 
   const updateVoiceSettings = () => {
-    const utterance = new SpeechSynthesisUtterance(t.testMessage);
-    utterance.rate = rate;
-    utterance.pitch = pitch;
-    
-    const voice = voices.find(v => v.name === selectedVoice);
-    if (voice) {
-      utterance.voice = voice;
-    }
-    
-    window.speechSynthesis.cancel();
-    window.speechSynthesis.speak(utterance);
+    // Queued like any answer, so testing a voice never cuts off a hazard warning.
+    speechQueue.speak({
+      text: t.testMessage,
+      priority: 'command',
+      lang: getLocale(language).speechLang,
+      voice: pickVoice(voices, language, selectedVoice),
+      rate,
+      pitch,
+    });
   };
 
   return (
@@ -112,7 +99,7 @@ export function VoiceSettings({ onVoiceSettingsChange }: VoiceSettingsProps) {
       >
         <div className="flex items-center gap-2">
           <Volume2 className="w-5 h-5" />
-          <span className="font-medium">Voice Settings</span>
+          <span className="font-medium">{t.voiceSettings}</span>
         </div>
         {isOpen ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
       </button>
@@ -121,10 +108,10 @@ export function VoiceSettings({ onVoiceSettingsChange }: VoiceSettingsProps) {
         <div className="p-4 space-y-4 border-t border-white/10">
           <div className="space-y-2">
             <label className="block text-sm font-medium text-white/90">
-              Voice
+              {t.voiceLabel}
             </label>
             <select
-              value={selectedVoice}
+              value={selectedVoice || pickVoice(voices, language)?.name || ''}
               onChange={(e) => {
                 setSelectedVoice(e.target.value);
                 handleSettingChange();
@@ -141,7 +128,7 @@ export function VoiceSettings({ onVoiceSettingsChange }: VoiceSettingsProps) {
 
           <div className="space-y-2">
             <label className="block text-sm font-medium text-white/90">
-              Speech Rate ({rate.toFixed(1)}x)
+              {t.speechRate(rate)}
             </label>
             <input
               type="range"
@@ -156,15 +143,15 @@ export function VoiceSettings({ onVoiceSettingsChange }: VoiceSettingsProps) {
               className="w-full accent-indigo-400"
             />
             <div className="flex justify-between text-xs text-white/60">
-              <span>Slow</span>
-              <span>Normal</span>
-              <span>Fast</span>
+              <span>{t.rateScale.slow}</span>
+              <span>{t.rateScale.normal}</span>
+              <span>{t.rateScale.fast}</span>
             </div>
           </div>
 
           <div className="space-y-2">
             <label className="block text-sm font-medium text-white/90">
-              Voice Pitch ({pitch.toFixed(1)})
+              {t.voicePitch(pitch)}
             </label>
             <input
               type="range"
@@ -179,9 +166,9 @@ export function VoiceSettings({ onVoiceSettingsChange }: VoiceSettingsProps) {
               className="w-full accent-indigo-400"
             />
             <div className="flex justify-between text-xs text-white/60">
-              <span>Low</span>
-              <span>Normal</span>
-              <span>High</span>
+              <span>{t.pitchScale.low}</span>
+              <span>{t.pitchScale.normal}</span>
+              <span>{t.pitchScale.high}</span>
             </div>
           </div>
 
@@ -189,7 +176,7 @@ export function VoiceSettings({ onVoiceSettingsChange }: VoiceSettingsProps) {
             onClick={updateVoiceSettings}
             className="w-full bg-indigo-600/70 hover:bg-indigo-700/70 text-white py-2 rounded-lg transition-colors"
           >
-            Test Voice
+            {t.testVoice}
           </button>
         </div>
       )}
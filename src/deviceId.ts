@@ -0,0 +1,18 @@
+const DEVICE_ID_STORAGE_KEY = 'sightsound_device_id';
+
+export function randomId(prefix: string): string {
+  // Avoid crypto dependency issues; use when available for better uniqueness.
+  const uuid = typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : null;
+  if (uuid) return `${prefix}_${uuid}`;
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+}
+
+// Persistent ID per browser+device (not a cross-device person identity).
+export function getOrCreateDeviceId(): string {
+  let id = localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+  if (!id) {
+    id = randomId('device');
+    localStorage.setItem(DEVICE_ID_STORAGE_KEY, id);
+  }
+  return id;
+}
@@ -1,8 +1,8 @@
 import { initializeApp, type FirebaseApp, type FirebaseOptions } from 'firebase/app';
 import { getAnalytics, isSupported, type Analytics, logEvent, setUserProperties, setUserId } from 'firebase/analytics';
+import { getOrCreateDeviceId, randomId } from './deviceId';
 
 const STORAGE_KEYS = {
-  deviceId: 'sightsound_device_id',
   hasVisited: 'sightsound_has_visited',
   visitCount: 'sightsound_visit_count',
   sessionHistory: 'sightsound_session_history', // JSON number[] of session start timestamps
@@ -45,23 +45,6 @@ let visitCount: number = 0;
 let isReturningUser: boolean = false;
 let isRegularUser: boolean = false;
 
-function randomId(prefix: string): string {
-  // Avoid crypto dependency issues; use when available for better uniqueness.
-  const uuid = typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : null;
-  if (uuid) return `${prefix}_${uuid}`;
-  return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
-}
-
-// Persistent ID per browser+device (not a cross-device person identity).
-function getOrCreateDeviceId(): string {
-  let id = localStorage.getItem(STORAGE_KEYS.deviceId);
-  if (!id) {
-    id = randomId('device');
-    localStorage.setItem(STORAGE_KEYS.deviceId, id);
-  }
-  return id;
-}
-
 // Generate session ID
 function generateSessionId(): string {
   return randomId('session');
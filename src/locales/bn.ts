@@ -0,0 +1,262 @@
+// Bengali locale pack.
+
+import type { Hazard, HazardDistance, HazardSeverity, HazardType } from '../services/hazards';
+import type { Mode } from '../modes';
+import type { CurrencyNote, ObjectPosition } from '../services/analysisSchema';
+import type { NewObject } from '../services/noveltyFilter';
+import type { ColorName, ColorShade, DetectedColor, LightLevel } from '../services/colorAnalysis';
+import { groupNotes, hasCritical, percent } from './helpers';
+import type { CommandPhrases, LocalePack, UiStrings } from './types';
+
+const modeNames: Record<Mode, string> = { scene: 'দৃশ্য বর্ণনা', navigation: 'নেভিগেশন', read: 'পড়া', currency: 'মুদ্রা', find: 'খোঁজা' };
+
+const distanceNames: Record<HazardDistance, string> = { near: 'কাছে', medium: 'কয়েক পা দূরে', far: 'অনেক দূরে' };
+
+const hazardLocation = (h: Hazard) => `${h.clock}টার দিকে, ${distanceNames[h.distance]}`;
+
+const hazardNames: Record<HazardType, string> = {
+  vehicle: 'যানবাহন',
+  traffic: 'ট্রাফিক',
+  weapon: 'অস্ত্র',
+  stairs: 'সিঁড়ি',
+  step: 'ধাপ',
+  hole: 'গর্ত',
+  uneven_surface: 'অসমান জমি',
+  wet_floor: 'ভেজা মেঝে',
+  water: 'জল',
+  obstacle: 'বাধা',
+  moving_object: 'চলন্ত বস্তু',
+  person: 'মানুষ',
+  crowd: 'ভিড়',
+  construction: 'নির্মাণকাজ',
+  door: 'দরজা',
+  wall: 'দেয়াল',
+  furniture: 'আসবাবপত্র',
+  glass: 'কাচ',
+  sharp_object: 'ধারালো বস্তু',
+  electric: 'বিদ্যুৎ',
+  hot_surface: 'গরম জায়গা',
+  other: 'বিপদ'
+};
+
+const hazardPhrase = (h: Hazard) => (h.detail ? `${hazardNames[h.type]}, ${h.detail}` : hazardNames[h.type]);
+
+const positionNames: Record<ObjectPosition, string> = { left: 'আপনার বাঁ দিকে', center: 'ঠিক সামনে', right: 'আপনার ডান দিকে' };
+
+const colorNames: Record<ColorName, string> = {
+  black: 'কালো', white: 'সাদা', gray: 'ধূসর', red: 'লাল', orange: 'কমলা', yellow: 'হলুদ',
+  green: 'সবুজ', teal: 'নীলচে সবুজ', blue: 'নীল', purple: 'বেগুনি', pink: 'গোলাপি', brown: 'বাদামি'
+};
+
+const shadeNames: Record<ColorShade, string> = { light: 'হালকা', dark: 'গাঢ়' };
+
+const colorPhrase = (color: DetectedColor) =>
+  color.shade ? `${shadeNames[color.shade]} ${colorNames[color.name]}` : colorNames[color.name];
+
+// What each command does, with an example phrase, for the spoken help.
+const commandHelp: Record<keyof CommandPhrases, string> = {
+  navigation: '"নেভিগেশন" হাঁটার পথনির্দেশের জন্য',
+  scene: '"দৃশ্য বর্ণনা" চারপাশের বর্ণনা শুনতে',
+  hazards: '"বিপদ" সাম্প্রতিক বিপদগুলো আবার শুনতে',
+  switchLanguage: '"ভাষা বদলাও" ভাষা বদলাতে',
+  read: '"এটা পড়ো" লেখা পড়ে শোনাতে',
+  currency: '"কোন নোট" নোট চিনতে',
+  color: '"কোন রং" সামনের রং জানতে',
+  light: '"আলো জ্বলছে কি" আলো দেখতে',
+  find: '"আমার চাবি খোঁজো" কোনো জিনিস খুঁজতে',
+  continueReading: '"পরেরটা" পরের অংশের জন্য',
+  repeat: '"আবার বলো" শেষ কথাটা আবার শুনতে',
+  stop: '"থামো" থামাতে',
+  pauseAnalysis: '"বিশ্লেষণ থামাও" নিজে থেকে বর্ণনা থামাতে',
+  resumeAnalysis: '"বিশ্লেষণ চালু করো" আবার বর্ণনা শুরু করতে',
+  describeNow: '"এখন বলো" সঙ্গে সঙ্গে নতুন বর্ণনা শুনতে',
+  tellMeMore: '"আরও বলো" শেষ দৃশ্যের বিস্তারিত বর্ণনা শুনতে',
+  stopTalking: '"কথা বন্ধ করো" কথা থামাতে',
+  faster: '"দ্রুত বলো" কথার গতি বাড়াতে',
+  slower: '"আস্তে বলো" কথার গতি কমাতে',
+  help: '"সাহায্য" এই তালিকা আবার শুনতে'
+};
+
+const strings: UiStrings = {
+  switchedToMode: (mode: Mode) => `${modeNames[mode]} মোডে বদলানো হয়েছে`,
+  sceneMode: 'দৃশ্য বর্ণনা',
+  navigationMode: 'নেভিগেশন',
+  analyzing: 'বিশ্লেষণ করা হচ্ছে...',
+  listeningToCommand: 'নির্দেশ শোনা হচ্ছে...',
+  autoAnalyzing: 'স্বয়ংক্রিয় বিশ্লেষণ',
+  hazardsDetected: 'সম্ভাব্য বিপদ পাওয়া গেছে',
+  noHazards: 'দৃশ্যে কোনো তাৎক্ষণিক বিপদ দেখা যাচ্ছে না।',
+  detectedHazards: (hazards: Hazard[]) =>
+    `${hasCritical(hazards) ? 'বিপদ! ' : ''}আমি এই বিপদগুলো পেয়েছি: ${hazards
+      .map((h) => `${hazardPhrase(h)}, ${hazardLocation(h)}`)
+      .join('; ')}`,
+  hazardLocation,
+  hazardNames,
+  severityNames: { critical: 'গুরুতর', warning: 'সতর্কতা', info: 'তথ্য' } as Record<HazardSeverity, string>,
+  analyzingScene: 'দৃশ্য বিশ্লেষণ করা হচ্ছে...',
+  analyzingNavigation: 'পথ বিশ্লেষণ করা হচ্ছে...',
+  errorAnalyzing: 'ছবিটি বিশ্লেষণ করতে সমস্যা হচ্ছে। আবার চেষ্টা করুন।',
+  voiceSettingsUpdated: 'ভয়েস সেটিংস আপডেট হয়েছে',
+  testMessage: 'এটি বর্তমান ভয়েস সেটিংসে একটি পরীক্ষামূলক বার্তা',
+  analysisSettings: 'বিশ্লেষণ সেটিংস',
+  frameChangeSensitivity: 'দৃশ্য পরিবর্তনের সংবেদনশীলতা',
+  frameChangeSensitivityNames: { off: 'বন্ধ (প্রতিটি ফ্রেম বিশ্লেষণ)', low: 'কম', medium: 'মাঝারি', high: 'বেশি' },
+  frameChangeSensitivityHint: 'যে ফ্রেম প্রায় বদলায়নি, সেগুলো আবার বিশ্লেষণ না করে আগের ফলাফল ব্যবহার করা হয়।',
+  capturePolicy: 'ছবি তোলার হার',
+  capturePolicyNames: { fixed: 'নির্দিষ্ট (প্রতি 10 সেকেন্ডে)', adaptive: 'মোড অনুযায়ী', motion: 'চলাচল অনুযায়ী' },
+  capturePolicyHints: {
+    fixed: 'প্রতি 10 সেকেন্ডে দৃশ্য বিশ্লেষণ করে।',
+    adaptive: 'নেভিগেশনে প্রতি 3 সেকেন্ডে, অন্য সময় প্রতি 10 সেকেন্ডে। ব্যাটারি কম থাকলে ধীর হয়ে যায়।',
+    motion: 'হাঁটার সময় প্রতি 2 থেকে 5 সেকেন্ডে, দাঁড়িয়ে থাকলে প্রতি 20 সেকেন্ডে। ব্যাটারি কম থাকলে ধীর হয়ে যায়।'
+  },
+  readMode: 'লেখা পড়ো',
+  readModeHint: 'ছাপা লেখার দিকে ক্যামেরা ধরে "এটা পড়ো" বলুন।',
+  noTextFound: 'পড়ার মতো কোনো লেখা পাইনি। ক্যামেরা কাছে ও স্থির রেখে আবার চেষ্টা করুন।',
+  readingIntro: (summary: string, parts: number) =>
+    `${summary || 'লেখা পাওয়া গেছে'}${parts > 1 ? `, ${parts} ভাগে` : ''}।`,
+  readingContinuePrompt: 'পরের অংশের জন্য "চালিয়ে যাও", আবার শুনতে "আবার বলো", অথবা "থামো" বলুন।',
+  readingPart: (current: number, total: number) => `অংশ ${current} / ${total}`,
+  endOfText: 'লেখা শেষ।',
+  noReadingInProgress: 'এখন কিছু পড়া হচ্ছে না। আগে "এটা পড়ো" বলুন।',
+  readingStopped: 'পড়া থামানো হয়েছে।',
+  currencyMode: 'মুদ্রা',
+  currencyModeHint: 'ক্যামেরার সামনে একটি নোট ধরুন।',
+  currencyResult: (notes: CurrencyNote[], total: number) =>
+    notes.length === 1
+      ? `${notes[0].denomination} টাকা। ${percent(notes[0].confidence)} শতাংশ নিশ্চিত।`
+      : `${notes.length}টি নোট: ${groupNotes(notes)
+          .map((g) => `${g.denomination} টাকার ${g.count}টি`)
+          .join(', ')}। মোট ${total} টাকা।`,
+  currencyConfidence: (confidence: number) => `${percent(confidence)}% নিশ্চিত`,
+  currencyTotal: (total: number) => `মোট: ₹${total}`,
+  repositionNote: 'এই নোটটি নিয়ে নিশ্চিত নই। এটি সমান করে, ক্যামেরার কাছে, ভালো আলোতে ধরুন।',
+  noNoteFound: 'কোনো নোট দেখতে পাচ্ছি না। নোটটি ক্যামেরার সামনে ধরুন।',
+  askNoFrame: 'আমি এখনও কিছু দেখিনি। ক্যামেরা ঘুরিয়ে আবার জিজ্ঞেস করুন।',
+  errorAnswering: 'দুঃখিত, এর উত্তর দিতে পারলাম না। আবার জিজ্ঞেস করুন।',
+  youAsked: 'আপনি জিজ্ঞেস করেছেন',
+  findMode: 'জিনিস খোঁজো',
+  findModeHint: 'খোঁজা শুরু করতে "আমার চাবি খোঁজো" বলুন, আর শেষ করতে "থামো"।',
+  searchingFor: (target: string) => `খোঁজা হচ্ছে: ${target}`,
+  searchStarted: (target: string) => `${target} খুঁজছি। ক্যামেরা ধীরে ধীরে চারপাশে ঘোরান।`,
+  objectFound: (target: string, position: ObjectPosition, distance: HazardDistance) =>
+    `${target} পাওয়া গেছে, ${positionNames[position]}, ${distanceNames[distance]}।`,
+  objectMoved: (position: ObjectPosition, distance: HazardDistance) =>
+    `এখন ${positionNames[position]}, ${distanceNames[distance]}।`,
+  objectLost: (target: string) => `${target} আর দেখা যাচ্ছে না।`,
+  objectNotInView: 'এখনও দেখা যায়নি',
+  objectInView: (position: ObjectPosition, distance: HazardDistance) =>
+    `দেখা যাচ্ছে, ${positionNames[position]}, ${distanceNames[distance]}`,
+  searchStopped: (target: string) => `${target} খোঁজা বন্ধ করা হয়েছে।`,
+  stopSearch: 'খোঁজা বন্ধ করো',
+  colorResult: (colors: DetectedColor[]) =>
+    colors.length === 0
+      ? 'রংটা বোঝা যাচ্ছে না। জিনিসটা ক্যামেরার আরও কাছে আনুন।'
+      : colors.length > 1
+      ? `বেশিরভাগ ${colorPhrase(colors[0])}, সাথে কিছুটা ${colorPhrase(colors[1])}।`
+      : `এটা ${colorPhrase(colors[0])} রঙের।`,
+  lightResult: {
+    dark: 'অন্ধকার। সম্ভবত আলো নেভানো।',
+    dim: 'আলো কম।',
+    normal: 'আলো জ্বলছে। আলো স্বাভাবিক।',
+    bright: 'খুব উজ্জ্বল, হয়তো জোরালো বাতি বা রোদ।'
+  } as Record<LightLevel, string>,
+  offlineModeOn: 'অফলাইন মোড। আমি শুধু মানুষ, গাড়ি, আসবাবের মতো সাধারণ জিনিস চিনতে পারি।',
+  offlineModeOff: 'আবার অনলাইন।',
+  offlineNothingDetected: 'অফলাইন মোড: আশেপাশে কিছু চিনতে পারছি না।',
+  offlineBadge: 'অফলাইন',
+  needsConnection: 'এর জন্য ইন্টারনেট সংযোগ দরকার। দৃশ্য বর্ণনা আর নেভিগেশন অফলাইনেও কাজ করে।',
+  offlineDetectorUnavailable: 'অফলাইন শনাক্তকরণ মডেল লোড করা যায়নি, তাই ইন্টারনেট ছাড়া আমি কিছু বর্ণনা করতে পারব না।',
+  offlineUnavailableBadge: 'অফলাইন মোড নেই',
+  voiceSettings: 'ভয়েস সেটিংস',
+  voiceLabel: 'কণ্ঠস্বর',
+  speechRate: (rate: number) => `কথার গতি (${rate.toFixed(1)}x)`,
+  voicePitch: (pitch: number) => `কণ্ঠের পিচ (${pitch.toFixed(1)})`,
+  rateScale: { slow: 'ধীর', normal: 'স্বাভাবিক', fast: 'দ্রুত' },
+  pitchScale: { low: 'নিচু', normal: 'স্বাভাবিক', high: 'উঁচু' },
+  testVoice: 'কণ্ঠ পরীক্ষা',
+  browserNotSupported: 'ব্রাউজার সমর্থিত নয়',
+  browserNotSupportedMessage: 'দুঃখিত, আপনার ব্রাউজার কণ্ঠস্বর শনাক্তকরণ সমর্থন করে না।',
+  browserNotSupportedHint: 'অনুগ্রহ করে Chrome, Edge বা Safari ব্যবহার করুন।',
+  microphoneRequired: 'মাইক্রোফোনের অনুমতি প্রয়োজন',
+  microphoneRequiredMessage: 'ভয়েস কমান্ড ব্যবহার করতে মাইক্রোফোনের অনুমতি দিন।',
+  microphoneRequiredHint: 'এটি ব্রাউজার সেটিংসে বদলাতে পারেন।',
+  detectionOverlay: 'শনাক্তকরণ বাক্স দেখাও',
+  detectionOverlayHint: 'কম দৃষ্টিসম্পন্ন ব্যবহারকারী ও সাহায্যকারীদের জন্য ক্যামেরার ছবিতে বিপদ আর জিনিসগুলো উজ্জ্বল রঙে দেখায়।',
+  overlayLabelSize: 'বাক্সের লেবেলের আকার',
+  overlayLabelSizeNames: { small: 'ছোট', medium: 'মাঝারি', large: 'বড়' },
+  noveltySensitivity: 'শুধু পরিবর্তন জানাও',
+  noveltySensitivityNames: { off: 'বন্ধ (প্রতিটি ফলাফল জানাও)', low: 'কম (শুধু বড় পরিবর্তন)', medium: 'মাঝারি', high: 'বেশি (ছোট পরিবর্তনও)' },
+  noveltySensitivityHint: 'দৃশ্য একই থাকলে শুধু নতুন বিপদ আর জিনিসগুলো বলা হয়।',
+  unchangedCue: 'কিছু না বদলালে',
+  unchangedCueNames: { silent: 'চুপ থাকো', tick: 'হালকা টিক শব্দ' },
+  newInView: (objects: NewObject[]) =>
+    `নতুন দেখা যাচ্ছে: ${objects
+      .map((o) => `${o.position ? `${positionNames[o.position]} ` : ''}${o.count > 1 ? `${o.count} ` : ''}${o.label}`)
+      .join(', ')}।`,
+  hapticSettings: 'কম্পন সতর্কতা',
+  hapticsEnabled: 'বিপদে কম্পন করো',
+  hapticsHint: 'কম্পনের দৈর্ঘ্য গুরুত্ব বোঝায়; তারপর একটি টোকা মানে বাঁয়ে, দুটি সামনে, তিনটি ডানে।',
+  hapticsUnsupported: 'এই ডিভাইস বা ব্রাউজার কম্পন করতে পারে না।',
+  hapticIntensity: 'কম্পনের জোর',
+  hapticIntensityNames: { gentle: 'হালকা', normal: 'স্বাভাবিক', strong: 'জোরালো' },
+  teachHaptics: 'প্যাটার্নগুলো শেখাও',
+  hapticLessonSeverity: { critical: 'গুরুতর বিপদ।', warning: 'সতর্কতা।', info: 'তথ্য।' },
+  hapticLessonSide: (position: ObjectPosition) => `বিপদ ${positionNames[position]}।`,
+  hapticLessonDone: 'এই হলো সব প্যাটার্ন।',
+  earconSettings: 'বিপদের শব্দ',
+  earconsEnabled: 'প্রতিটি বিপদে শব্দ বাজাও',
+  earconsHint: 'প্রতিটি ধরনের বিপদের নিজস্ব ছোট শব্দ আছে, বিপদ যেদিকে সেদিকে শোনা যায়। হেডফোনে সবচেয়ে ভালো।',
+  earconsUnsupported: 'এই ব্রাউজার বিপদের শব্দ বাজাতে পারে না।',
+  earconVolume: (volume: number) => `আওয়াজ: ${Math.round(volume * 100)}%`,
+  earconsOnly: 'শুধু শব্দ, বলা বর্ণনা নয়',
+  earconsOnlyHint: 'স্বয়ংক্রিয় বর্ণনা বলা হয় না; আপনার নির্দেশের উত্তর তবুও বলা হয়।',
+  previewEarcons: 'শব্দগুলো শোনাও',
+  helpMessage: (mode: Mode, commands: (keyof CommandPhrases)[]) =>
+    `${modeNames[mode]} মোডে আপনি বলতে পারেন: ${commands.map((id) => commandHelp[id]).join('; ')}।`,
+  autoAnalysisPaused: 'স্বয়ংক্রিয় বিশ্লেষণ বন্ধ আছে',
+  analysisPaused: 'নিজে থেকে বর্ণনা দেওয়া বন্ধ হলো। আবার শুরু করতে "বিশ্লেষণ চালু করো" বলুন।',
+  analysisResumed: 'নিজে থেকে বর্ণনা দেওয়া আবার শুরু হলো।',
+  nothingToRepeat: 'আমি এখনও কিছু বলিনি।',
+  speechRateChanged: (rate: number) => `এখন ${rate.toFixed(1)} গুণ গতিতে বলছি।`,
+  listeningSettings: 'শোনা',
+  listeningMode: 'কখন নির্দেশ শুনবে',
+  listeningModeNames: { always: 'সবসময়', wakePhrase: 'শুধু জাগানোর বাক্যের পরে' },
+  wakePhrase: 'জাগানোর বাক্য (ডিফল্টের জন্য খালি রাখুন)',
+  wakePhraseHint: (phrase: string, seconds: number) =>
+    `"${phrase}" বলুন, ঘণ্টার শব্দের পরে ${seconds} সেকেন্ডের মধ্যে নির্দেশ দিন বা প্রশ্ন করুন। নামতে থাকা ঘণ্টার শব্দ মানে শোনা বন্ধ হয়েছে।`,
+  waitingForWakePhrase: (phrase: string) => `নির্দেশ দিতে "${phrase}" বলুন`
+};
+
+export const bn: LocalePack = {
+  nativeName: 'বাংলা',
+  speechLang: 'bn-IN',
+  voiceTags: ['bn-IN', 'bn-BD', 'bn'],
+  modelLanguage: 'natural Bengali with proper Bengali grammar and phrasing, ONLY in Bengali script',
+  commands: {
+    navigation: ['নেভিগেশন', 'পথ দেখাও'],
+    scene: ['দৃশ্য বর্ণনা', 'কী দেখা যাচ্ছে'],
+    hazards: ['বিপদ', 'কোনো বিপদ'],
+    switchLanguage: ['ভাষা বদলাও'],
+    read: ['পড়ো', 'এটা পড়ো'],
+    currency: ['কোন নোট', 'টাকা দেখো'],
+    color: ['কোন রং', 'এটা কী রং'],
+    light: ['আলো জ্বলছে কি', 'আলো কতটা'],
+    find: [/^(?:আমার )?(.+?) (?:খোঁজো|খুঁজে দাও)$/],
+    continueReading: ['চালিয়ে যাও', 'পরেরটা'],
+    repeat: ['আবার বলো', 'আবার'],
+    stop: ['থামো', 'পড়া থামাও'],
+    pauseAnalysis: ['বিশ্লেষণ থামাও', 'বিরতি'],
+    resumeAnalysis: ['বিশ্লেষণ চালু করো', 'আবার শুরু করো'],
+    describeNow: ['এখন বলো', 'এখন দেখো'],
+    tellMeMore: ['আরও বলো', 'বিস্তারিত বলো'],
+    stopTalking: ['কথা বন্ধ করো', 'চুপ করো'],
+    faster: ['দ্রুত বলো', 'তাড়াতাড়ি বলো'],
+    slower: ['আস্তে বলো', 'ধীরে বলো'],
+    help: ['সাহায্য', 'কী বলতে পারি']
+  },
+  questionPrefixes: ['প্রশ্ন'],
+  // Question words are matched as whole words: "কে" (who) is also a common case ending.
+  questionPattern: /(?:^|\s)(?:কী|কি|কোথায়|কে|কোন|কোনটা|কত|কেমন|কীভাবে|কেন|বলো)(?=\s|\?|$)/,
+  wakePhrases: ['হে সাইটসাউন্ড', 'hey sightsound'],
+  strings
+};
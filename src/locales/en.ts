@@ -0,0 +1,281 @@
+// English locale pack. Its strings are the reference every other pack is checked against.
+
+import type { Hazard, HazardDistance, HazardSeverity, HazardType } from '../services/hazards';
+import type { Mode } from '../modes';
+import type { CurrencyNote, ObjectPosition } from '../services/analysisSchema';
+import type { NewObject } from '../services/noveltyFilter';
+import type { ColorName, ColorShade, DetectedColor, LightLevel } from '../services/colorAnalysis';
+import { groupNotes, hasCritical, percent } from './helpers';
+import type { CommandPhrases, LocalePack } from './types';
+
+const modeNames: Record<Mode, string> = { scene: 'scene', navigation: 'navigation', read: 'reading', currency: 'currency', find: 'search' };
+
+const distanceNames: Record<HazardDistance, string> = { near: 'close by', medium: 'a few steps away', far: 'far away' };
+
+const hazardLocation = (h: Hazard) => `at ${h.clock} o'clock, ${distanceNames[h.distance]}`;
+
+const hazardNames: Record<HazardType, string> = {
+  vehicle: 'vehicle',
+  traffic: 'traffic',
+  weapon: 'weapon',
+  stairs: 'stairs',
+  step: 'step',
+  hole: 'hole',
+  uneven_surface: 'uneven surface',
+  wet_floor: 'wet floor',
+  water: 'water',
+  obstacle: 'obstacle',
+  moving_object: 'moving object',
+  person: 'person',
+  crowd: 'crowd',
+  construction: 'construction work',
+  door: 'door',
+  wall: 'wall',
+  furniture: 'furniture',
+  glass: 'glass',
+  sharp_object: 'sharp object',
+  electric: 'electrical hazard',
+  hot_surface: 'hot surface',
+  other: 'hazard'
+};
+
+// The detail says which thing it is ("red car reversing"); the type's name alone when there is none.
+const hazardPhrase = (h: Hazard) => (h.detail ? `${hazardNames[h.type]}, ${h.detail}` : hazardNames[h.type]);
+
+const positionNames: Record<ObjectPosition, string> = { left: 'on your left', center: 'straight ahead', right: 'on your right' };
+
+const colorNames: Record<ColorName, string> = {
+  black: 'black', white: 'white', gray: 'grey', red: 'red', orange: 'orange', yellow: 'yellow',
+  green: 'green', teal: 'teal', blue: 'blue', purple: 'purple', pink: 'pink', brown: 'brown'
+};
+
+const shadeNames: Record<ColorShade, string> = { light: 'light', dark: 'dark' };
+
+const colorPhrase = (color: DetectedColor) =>
+  color.shade ? `${shadeNames[color.shade]} ${colorNames[color.name]}` : colorNames[color.name];
+
+// What each command does, with an example phrase, for the spoken help.
+const commandHelp: Record<keyof CommandPhrases, string> = {
+  navigation: '"navigation mode" for walking guidance',
+  scene: '"describe scene" to hear what is around you',
+  hazards: '"hazards" to hear the latest hazards again',
+  switchLanguage: '"switch language" to change the language',
+  read: '"read this" to have text read aloud',
+  currency: '"which note" to identify money',
+  color: '"what colour is this" for the colour in front of you',
+  light: '"is the light on" to check the light',
+  find: '"find my keys" to search for something',
+  continueReading: '"next" for the next part',
+  repeat: '"repeat" to hear the last thing again',
+  stop: '"stop" to stop',
+  pauseAnalysis: '"pause" to stop describing automatically',
+  resumeAnalysis: '"resume" to start describing again',
+  describeNow: '"describe now" for a fresh description straight away',
+  tellMeMore: '"tell me more" for a detailed description of the last view',
+  stopTalking: '"stop talking" to silence speech',
+  faster: '"speak faster" to speed up speech',
+  slower: '"speak slower" to slow it down',
+  help: '"help" to hear this list again'
+};
+
+export const enStrings = {
+  switchedToMode: (mode: Mode) => `Switched to ${modeNames[mode]} mode`,
+  sceneMode: 'scene description',
+  navigationMode: 'navigation',
+  analyzing: 'Analyzing...',
+  listeningToCommand: 'Listening to command...',
+  autoAnalyzing: 'Auto-analyzing',
+  hazardsDetected: 'Potential Hazards Detected',
+  noHazards: "I don't see any immediate hazards in the scene.",
+  detectedHazards: (hazards: Hazard[]) =>
+    `${hasCritical(hazards) ? 'Danger! ' : ''}I detected the following hazards: ${hazards
+      .map((h) => `${hazardPhrase(h)} ${hazardLocation(h)}`)
+      .join('; ')}`,
+  hazardLocation,
+  hazardNames,
+  severityNames: { critical: 'Critical', warning: 'Warning', info: 'Info' } as Record<HazardSeverity, string>,
+  analyzingScene: 'Analyzing scene...',
+  analyzingNavigation: 'Analyzing navigation...',
+  errorAnalyzing: "I'm having trouble analyzing the image. Please try again.",
+  voiceSettingsUpdated: 'Voice settings updated',
+  testMessage: 'This is a test message with the current voice settings',
+  analysisSettings: 'Analysis Settings',
+  frameChangeSensitivity: 'Scene change sensitivity',
+  frameChangeSensitivityNames: { off: 'Off (analyze every frame)', low: 'Low', medium: 'Medium', high: 'High' },
+  frameChangeSensitivityHint: 'Frames that barely changed reuse the last result instead of being analyzed again.',
+  capturePolicy: 'Capture frequency',
+  capturePolicyNames: { fixed: 'Fixed (every 10 seconds)', adaptive: 'Adaptive to mode', motion: 'Motion-aware' },
+  capturePolicyHints: {
+    fixed: 'Analyzes the scene every 10 seconds.',
+    adaptive: 'Every 3 seconds in navigation, every 10 seconds otherwise. Slows down when the battery is low.',
+    motion: 'Every 2 to 5 seconds while you walk, every 20 seconds while you stand still. Slows down when the battery is low.'
+  },
+  readMode: 'read text',
+  readModeHint: 'Point the camera at printed text and say "read this".',
+  noTextFound: "I can't find any readable text. Try holding the camera closer and steady.",
+  readingIntro: (summary: string, parts: number) =>
+    `${summary || 'Text found'}${parts > 1 ? `, in ${parts} parts` : ''}.`,
+  readingContinuePrompt: 'Say continue for the next part, repeat, or stop.',
+  readingPart: (current: number, total: number) => `Part ${current} of ${total}`,
+  endOfText: 'End of text.',
+  noReadingInProgress: 'Nothing is being read. Say "read this" first.',
+  readingStopped: 'Stopped reading.',
+  currencyMode: 'currency',
+  currencyModeHint: 'Hold a banknote in front of the camera.',
+  currencyResult: (notes: CurrencyNote[], total: number) =>
+    notes.length === 1
+      ? `${notes[0].denomination} rupees. ${percent(notes[0].confidence)} percent sure.`
+      : `${notes.length} notes: ${groupNotes(notes)
+          .map((g) => `${g.count} of ${g.denomination}`)
+          .join(', ')}. Total ${total} rupees.`,
+  currencyConfidence: (confidence: number) => `${percent(confidence)}% sure`,
+  currencyTotal: (total: number) => `Total: ₹${total}`,
+  repositionNote: "I'm not sure about this note. Hold it flat, closer to the camera and in good light.",
+  noNoteFound: "I don't see a banknote. Hold the note in front of the camera.",
+  askNoFrame: "I haven't seen anything yet. Point the camera and ask again.",
+  errorAnswering: "Sorry, I couldn't answer that. Please ask again.",
+  youAsked: 'You asked',
+  findMode: 'find object',
+  findModeHint: 'Say "find my keys" to start a search, and "stop" to end it.',
+  searchingFor: (target: string) => `Looking for: ${target}`,
+  searchStarted: (target: string) => `Looking for ${target}. Move the camera slowly around you.`,
+  objectFound: (target: string, position: ObjectPosition, distance: HazardDistance) =>
+    `${target} found, ${positionNames[position]}, ${distanceNames[distance]}.`,
+  objectMoved: (position: ObjectPosition, distance: HazardDistance) =>
+    `Now ${positionNames[position]}, ${distanceNames[distance]}.`,
+  objectLost: (target: string) => `${target} is out of view.`,
+  objectNotInView: 'Not in view yet',
+  objectInView: (position: ObjectPosition, distance: HazardDistance) =>
+    `In view, ${positionNames[position]}, ${distanceNames[distance]}`,
+  searchStopped: (target: string) => `Stopped looking for ${target}.`,
+  stopSearch: 'Stop search',
+  colorResult: (colors: DetectedColor[]) =>
+    colors.length === 0
+      ? "I can't make out the colour. Hold the object closer to the camera."
+      : colors.length > 1
+      ? `Mostly ${colorPhrase(colors[0])}, with some ${colorPhrase(colors[1])}.`
+      : `It looks ${colorPhrase(colors[0])}.`,
+  lightResult: {
+    dark: "It's dark. The light is probably off.",
+    dim: 'The light is dim.',
+    normal: 'The light is on. Brightness looks normal.',
+    bright: "It's very bright, maybe a strong lamp or sunlight."
+  } as Record<LightLevel, string>,
+  offlineModeOn: 'Offline mode. I can only recognise common objects like people, vehicles and furniture.',
+  offlineModeOff: 'Back online.',
+  offlineNothingDetected: "Offline mode: I don't recognise anything nearby.",
+  offlineBadge: 'Offline',
+  needsConnection: 'This needs an internet connection. Scene and navigation still work offline.',
+  offlineDetectorUnavailable: "The offline detector could not be loaded, so I can't describe anything without an internet connection.",
+  offlineUnavailableBadge: 'No offline mode',
+  voiceSettings: 'Voice Settings',
+  voiceLabel: 'Voice',
+  speechRate: (rate: number) => `Speech Rate (${rate.toFixed(1)}x)`,
+  voicePitch: (pitch: number) => `Voice Pitch (${pitch.toFixed(1)})`,
+  rateScale: { slow: 'Slow', normal: 'Normal', fast: 'Fast' },
+  pitchScale: { low: 'Low', normal: 'Normal', high: 'High' },
+  testVoice: 'Test Voice',
+  browserNotSupported: 'Browser Not Supported',
+  browserNotSupportedMessage: "Sorry, your browser doesn't support speech recognition.",
+  browserNotSupportedHint: 'Please try using Chrome, Edge, or Safari.',
+  microphoneRequired: 'Microphone Access Required',
+  microphoneRequiredMessage: 'Please allow microphone access to use voice commands.',
+  microphoneRequiredHint: 'You can change this in your browser settings.',
+  detectionOverlay: 'Show detection boxes',
+  detectionOverlayHint: 'Draws hazards and objects on the camera view in high contrast, for low-vision users and helpers.',
+  overlayLabelSize: 'Box label size',
+  overlayLabelSizeNames: { small: 'Small', medium: 'Medium', large: 'Large' },
+  noveltySensitivity: 'Only announce what changed',
+  noveltySensitivityNames: { off: 'Off (announce every result)', low: 'Low (big changes only)', medium: 'Medium', high: 'High (small changes too)' },
+  noveltySensitivityHint: 'When the scene looks the same, only new hazards and objects are spoken.',
+  unchangedCue: 'When nothing changed',
+  unchangedCueNames: { silent: 'Stay silent', tick: 'Play a soft tick' },
+  newInView: (objects: NewObject[]) =>
+    `New in view: ${objects
+      .map((o) => `${o.count > 1 ? `${o.count} ` : ''}${o.label}${o.position ? ` ${positionNames[o.position]}` : ''}`)
+      .join(', ')}.`,
+  hapticSettings: 'Vibration alerts',
+  hapticsEnabled: 'Vibrate for hazards',
+  hapticsHint: 'The length of the buzz tells the severity; then one tap means left, two ahead, three right.',
+  hapticsUnsupported: 'This device or browser cannot vibrate.',
+  hapticIntensity: 'Vibration strength',
+  hapticIntensityNames: { gentle: 'Gentle', normal: 'Normal', strong: 'Strong' },
+  teachHaptics: 'Teach me the patterns',
+  hapticLessonSeverity: { critical: 'Critical hazard.', warning: 'Warning.', info: 'Information.' } as Record<HazardSeverity, string>,
+  hapticLessonSide: (position: ObjectPosition) => `Hazard ${positionNames[position]}.`,
+  hapticLessonDone: 'Those are all the patterns.',
+  earconSettings: 'Hazard sounds',
+  earconsEnabled: 'Play a sound for each hazard',
+  earconsHint: 'Each kind of hazard has its own short sound, heard on the side where the hazard is. Best with headphones.',
+  earconsUnsupported: 'This browser cannot play hazard sounds.',
+  earconVolume: (volume: number) => `Volume: ${Math.round(volume * 100)}%`,
+  earconsOnly: 'Sounds only, no spoken descriptions',
+  earconsOnlyHint: 'Automatic descriptions are not spoken; answers to your commands still are.',
+  previewEarcons: 'Play the sounds',
+  helpMessage: (mode: Mode, commands: (keyof CommandPhrases)[]) =>
+    `In ${modeNames[mode]} mode you can say: ${commands.map((id) => commandHelp[id]).join('; ')}.`,
+  autoAnalysisPaused: 'Auto-analysis paused',
+  analysisPaused: 'Automatic descriptions paused. Say "resume" to start again.',
+  analysisResumed: 'Automatic descriptions resumed.',
+  nothingToRepeat: "I haven't said anything yet.",
+  speechRateChanged: (rate: number) => `Speaking at ${rate.toFixed(1)} times normal speed.`,
+  listeningSettings: 'Listening',
+  listeningMode: 'Listen for commands',
+  listeningModeNames: { always: 'All the time', wakePhrase: 'Only after the wake phrase' },
+  wakePhrase: 'Wake phrase (leave empty for the default)',
+  wakePhraseHint: (phrase: string, seconds: number) =>
+    `Say "${phrase}", wait for the chime, then give a command or ask a question within ${seconds} seconds. A falling chime means it has stopped listening.`,
+  waitingForWakePhrase: (phrase: string) => `Say "${phrase}" to give a command`
+};
+
+export const en: LocalePack = {
+  nativeName: 'English',
+  speechLang: 'en-IN',
+  voiceTags: ['en-IN', 'en-US', 'en-GB', 'en'],
+  modelLanguage: 'clear, simple English',
+  commands: {
+    navigation: [
+      'switch to navigation',
+      'navigation mode',
+      'enable navigation',
+      'start navigation',
+      'begin navigation',
+      'navigate'
+    ],
+    scene: [
+      'switch to scene',
+      'scene mode',
+      'scene description',
+      'enable scene',
+      'start scene',
+      'describe scene',
+      'what do you see'
+    ],
+    hazards: ['hazards', 'dangers', 'what are the hazards', 'any dangers'],
+    switchLanguage: ['switch language', 'change language', 'toggle language'],
+    read: ['read this', 'read', 'read text'],
+    currency: ['which note', 'what note is this', 'check money', 'check currency', 'currency mode'],
+    // Only the colour of whatever is in the middle of the frame; "what colour is the shirt?"
+    // names an object, so it stays a question for the model.
+    color: [/^(?:what|which) colou?r(?: is (?:this|that|it))?[.?]?$/, 'colour', 'color'],
+    light: [/^is the lights? (?:on|off)\b/, /^how (?:bright|dark) is it\b/, 'light level'],
+    // "Where is the door?" stays a question; only "where is my ..." searches.
+    find: [/^(?:find|look for)(?: my| the)? (.+)$/, /^where(?: is|'s| are) my (.+)$/],
+    continueReading: ['continue', 'next'],
+    repeat: ['repeat', 'repeat that'],
+    stop: ['stop', 'stop reading'],
+    pauseAnalysis: ['pause', 'pause analysis', 'stop analysing', 'stop analyzing'],
+    resumeAnalysis: ['resume', 'resume analysis', 'start analysing', 'start analyzing'],
+    describeNow: ['describe now', 'look now', 'analyse now', 'analyze now'],
+    tellMeMore: ['tell me more', 'more detail', 'more details', 'describe in detail'],
+    stopTalking: ['stop talking', 'be quiet', 'quiet', 'silence'],
+    faster: ['speak faster', 'talk faster', 'faster'],
+    slower: ['speak slower', 'talk slower', 'slower'],
+    help: ['help', 'what can i say', 'list commands']
+  },
+  questionPrefixes: ['ask', 'question'],
+  questionPattern:
+    /^(?:what|what's|whats|where|where's|which|who|who's|whose|why|how|is|are|was|were|do|does|did|can|could|will|would|should|has|have|tell me|describe)\b/i,
+  wakePhrases: ['hey sightsound', 'ok sightsound'],
+  strings: enStrings
+};
@@ -0,0 +1,14 @@
+// Language-neutral helpers shared by the locale packs.
+
+import type { Hazard } from '../services/hazards';
+import type { CurrencyNote } from '../services/analysisSchema';
+
+// Largest denomination first, with how many notes of each.
+export const groupNotes = (notes: CurrencyNote[]) =>
+  [...new Set(notes.map((n) => n.denomination))]
+    .sort((a, b) => b - a)
+    .map((denomination) => ({ denomination, count: notes.filter((n) => n.denomination === denomination).length }));
+
+export const percent = (confidence: number) => Math.round(confidence * 100);
+
+export const hasCritical = (hazards: Hazard[]) => hazards.some((h) => h.severity === 'critical');
@@ -0,0 +1,262 @@
+// Hindi locale pack.
+
+import type { Hazard, HazardDistance, HazardSeverity, HazardType } from '../services/hazards';
+import type { Mode } from '../modes';
+import type { CurrencyNote, ObjectPosition } from '../services/analysisSchema';
+import type { NewObject } from '../services/noveltyFilter';
+import type { ColorName, ColorShade, DetectedColor, LightLevel } from '../services/colorAnalysis';
+import { groupNotes, hasCritical, percent } from './helpers';
+import type { CommandPhrases, LocalePack, UiStrings } from './types';
+
+const modeNames: Record<Mode, string> = { scene: 'दृश्य विवरण', navigation: 'नेविगेशन', read: 'पढ़ने', currency: 'मुद्रा', find: 'खोज' };
+
+const distanceNames: Record<HazardDistance, string> = { near: 'पास में', medium: 'कुछ कदम दूर', far: 'दूर' };
+
+const hazardLocation = (h: Hazard) => `${h.clock} बजे की दिशा में, ${distanceNames[h.distance]}`;
+
+const hazardNames: Record<HazardType, string> = {
+  vehicle: 'वाहन',
+  traffic: 'यातायात',
+  weapon: 'हथियार',
+  stairs: 'सीढ़ियां',
+  step: 'सीढ़ी',
+  hole: 'गड्ढा',
+  uneven_surface: 'असमान सतह',
+  wet_floor: 'गीला फर्श',
+  water: 'पानी',
+  obstacle: 'बाधा',
+  moving_object: 'चलती वस्तु',
+  person: 'व्यक्ति',
+  crowd: 'भीड़',
+  construction: 'निर्माण कार्य',
+  door: 'दरवाजा',
+  wall: 'दीवार',
+  furniture: 'फर्नीचर',
+  glass: 'कांच',
+  sharp_object: 'धारदार वस्तु',
+  electric: 'बिजली',
+  hot_surface: 'गर्म सतह',
+  other: 'खतरा'
+};
+
+const hazardPhrase = (h: Hazard) => (h.detail ? `${hazardNames[h.type]}, ${h.detail}` : hazardNames[h.type]);
+
+const positionNames: Record<ObjectPosition, string> = { left: 'आपके बाईं ओर', center: 'सीधे सामने', right: 'आपके दाईं ओर' };
+
+const colorNames: Record<ColorName, string> = {
+  black: 'काला', white: 'सफ़ेद', gray: 'स्लेटी', red: 'लाल', orange: 'नारंगी', yellow: 'पीला',
+  green: 'हरा', teal: 'फ़िरोज़ी', blue: 'नीला', purple: 'बैंगनी', pink: 'गुलाबी', brown: 'भूरा'
+};
+
+const shadeNames: Record<ColorShade, string> = { light: 'हल्का', dark: 'गहरा' };
+
+const colorPhrase = (color: DetectedColor) =>
+  color.shade ? `${shadeNames[color.shade]} ${colorNames[color.name]}` : colorNames[color.name];
+
+// What each command does, with an example phrase, for the spoken help.
+const commandHelp: Record<keyof CommandPhrases, string> = {
+  navigation: '"नेविगेशन" चलने में मार्गदर्शन के लिए',
+  scene: '"दृश्य विवरण" आसपास का विवरण सुनने के लिए',
+  hazards: '"खतरे" ताज़ा खतरे दोबारा सुनने के लिए',
+  switchLanguage: '"भाषा बदलें" भाषा बदलने के लिए',
+  read: '"यह पढ़ो" लिखा हुआ पढ़वाने के लिए',
+  currency: '"कौन सा नोट" नोट पहचानने के लिए',
+  color: '"कौन सा रंग" सामने का रंग जानने के लिए',
+  light: '"क्या लाइट जल रही है" रोशनी जांचने के लिए',
+  find: '"मेरी चाबी ढूंढो" कोई चीज़ खोजने के लिए',
+  continueReading: '"आगे" अगला हिस्सा सुनने के लिए',
+  repeat: '"दोहराओ" पिछली बात फिर से सुनने के लिए',
+  stop: '"रुको" रोकने के लिए',
+  pauseAnalysis: '"विश्लेषण रोको" अपने आप बताना रोकने के लिए',
+  resumeAnalysis: '"विश्लेषण शुरू करो" फिर से बताना शुरू करने के लिए',
+  describeNow: '"अभी बताओ" तुरंत नया विवरण सुनने के लिए',
+  tellMeMore: '"और बताओ" पिछले दृश्य का विस्तृत विवरण सुनने के लिए',
+  stopTalking: '"चुप हो जाओ" बोलना बंद कराने के लिए',
+  faster: '"तेज़ बोलो" बोलने की गति बढ़ाने के लिए',
+  slower: '"धीरे बोलो" बोलने की गति घटाने के लिए',
+  help: '"मदद" यह सूची फिर से सुनने के लिए'
+};
+
+const strings: UiStrings = {
+  switchedToMode: (mode: Mode) => `${modeNames[mode]} मोड में बदल गया`,
+  sceneMode: 'दृश्य विवरण',
+  navigationMode: 'नेविगेशन',
+  analyzing: 'विश्लेषण कर रहा है...',
+  listeningToCommand: 'कमांड सुन रहा है...',
+  autoAnalyzing: 'स्वचालित विश्लेषण',
+  hazardsDetected: 'संभावित खतरे पाए गए',
+  noHazards: 'दृश्य में कोई तत्काल खतरा नहीं दिखाई दे रहा है।',
+  detectedHazards: (hazards: Hazard[]) =>
+    `${hasCritical(hazards) ? 'खतरा! ' : ''}मैंने निम्नलिखित खतरे पाए: ${hazards
+      .map((h) => `${hazardPhrase(h)}, ${hazardLocation(h)}`)
+      .join('; ')}`,
+  hazardLocation,
+  hazardNames,
+  severityNames: { critical: 'गंभीर', warning: 'चेतावनी', info: 'सूचना' } as Record<HazardSeverity, string>,
+  analyzingScene: 'दृश्य का विश्लेषण कर रहा है...',
+  analyzingNavigation: 'नेविगेशन का विश्लेषण कर रहा है...',
+  errorAnalyzing: 'छवि का विश्लेषण करने में समस्या है। कृपया पुनः प्रयास करें।',
+  voiceSettingsUpdated: 'वॉइस सेटिंग्स अपडेट की गईं',
+  testMessage: 'यह वर्तमान वॉइस सेटिंग्स के साथ एक परीक्षण संदेश है',
+  analysisSettings: 'विश्लेषण सेटिंग्स',
+  frameChangeSensitivity: 'दृश्य परिवर्तन संवेदनशीलता',
+  frameChangeSensitivityNames: { off: 'बंद (हर फ्रेम का विश्लेषण)', low: 'कम', medium: 'मध्यम', high: 'अधिक' },
+  frameChangeSensitivityHint: 'जो फ्रेम लगभग नहीं बदले, उनके लिए दोबारा विश्लेषण के बजाय पिछला परिणाम उपयोग होता है।',
+  capturePolicy: 'कैप्चर आवृत्ति',
+  capturePolicyNames: { fixed: 'निश्चित (हर 10 सेकंड)', adaptive: 'मोड के अनुसार', motion: 'गति के अनुसार' },
+  capturePolicyHints: {
+    fixed: 'हर 10 सेकंड में दृश्य का विश्लेषण करता है।',
+    adaptive: 'नेविगेशन में हर 3 सेकंड, अन्यथा हर 10 सेकंड। बैटरी कम होने पर धीमा हो जाता है।',
+    motion: 'चलते समय हर 2 से 5 सेकंड, खड़े रहने पर हर 20 सेकंड। बैटरी कम होने पर धीमा हो जाता है।'
+  },
+  readMode: 'पाठ पढ़ें',
+  readModeHint: 'कैमरे को छपे हुए पाठ की ओर करें और "पढ़ो" कहें।',
+  noTextFound: 'मुझे कोई पढ़ने योग्य पाठ नहीं मिला। कैमरा पास और स्थिर रखकर फिर कोशिश करें।',
+  readingIntro: (summary: string, parts: number) =>
+    `${summary || 'पाठ मिला'}${parts > 1 ? `, ${parts} भागों में` : ''}।`,
+  readingContinuePrompt: 'अगले भाग के लिए "आगे" कहें, दोबारा सुनने के लिए "दोहराओ", या "रुको"।',
+  readingPart: (current: number, total: number) => `भाग ${current} / ${total}`,
+  endOfText: 'पाठ समाप्त।',
+  noReadingInProgress: 'अभी कुछ नहीं पढ़ा जा रहा है। पहले "पढ़ो" कहें।',
+  readingStopped: 'पढ़ना बंद किया।',
+  currencyMode: 'मुद्रा',
+  currencyModeHint: 'कैमरे के सामने एक नोट रखें।',
+  currencyResult: (notes: CurrencyNote[], total: number) =>
+    notes.length === 1
+      ? `${notes[0].denomination} रुपये। ${percent(notes[0].confidence)} प्रतिशत निश्चित।`
+      : `${notes.length} नोट: ${groupNotes(notes)
+          .map((g) => `${g.denomination} के ${g.count}`)
+          .join(', ')}। कुल ${total} रुपये।`,
+  currencyConfidence: (confidence: number) => `${percent(confidence)}% निश्चित`,
+  currencyTotal: (total: number) => `कुल: ₹${total}`,
+  repositionNote: 'मुझे इस नोट के बारे में पक्का नहीं है। इसे सीधा, कैमरे के पास और अच्छी रोशनी में रखें।',
+  noNoteFound: 'मुझे कोई नोट नहीं दिख रहा। नोट को कैमरे के सामने रखें।',
+  askNoFrame: 'मैंने अभी तक कुछ नहीं देखा है। कैमरा घुमाकर फिर से पूछें।',
+  errorAnswering: 'माफ़ कीजिए, मैं इसका जवाब नहीं दे सका। कृपया फिर से पूछें।',
+  youAsked: 'आपने पूछा',
+  findMode: 'वस्तु खोजें',
+  findModeHint: 'खोज शुरू करने के लिए "मेरी चाबी ढूंढो" कहें, और बंद करने के लिए "रुको"।',
+  searchingFor: (target: string) => `खोज रहे हैं: ${target}`,
+  searchStarted: (target: string) => `${target} खोज रहे हैं। कैमरे को धीरे-धीरे चारों ओर घुमाएं।`,
+  objectFound: (target: string, position: ObjectPosition, distance: HazardDistance) =>
+    `${target} दिख रहा है, ${positionNames[position]}, ${distanceNames[distance]}।`,
+  objectMoved: (position: ObjectPosition, distance: HazardDistance) =>
+    `अब ${positionNames[position]}, ${distanceNames[distance]}।`,
+  objectLost: (target: string) => `${target} अब नज़र नहीं आ रहा।`,
+  objectNotInView: 'अभी तक नहीं दिखा',
+  objectInView: (position: ObjectPosition, distance: HazardDistance) =>
+    `दिख रहा है, ${positionNames[position]}, ${distanceNames[distance]}`,
+  searchStopped: (target: string) => `${target} की खोज बंद की।`,
+  stopSearch: 'खोज बंद करें',
+  colorResult: (colors: DetectedColor[]) =>
+    colors.length === 0
+      ? 'रंग साफ़ नहीं दिख रहा। वस्तु को कैमरे के और पास लाएं।'
+      : colors.length > 1
+      ? `ज़्यादातर ${colorPhrase(colors[0])}, साथ में कुछ ${colorPhrase(colors[1])}।`
+      : `यह ${colorPhrase(colors[0])} रंग का है।`,
+  lightResult: {
+    dark: 'अंधेरा है। शायद लाइट बंद है।',
+    dim: 'रोशनी कम है।',
+    normal: 'लाइट जल रही है। रोशनी सामान्य है।',
+    bright: 'बहुत तेज़ रोशनी है, शायद तेज़ लैंप या धूप।'
+  } as Record<LightLevel, string>,
+  offlineModeOn: 'ऑफ़लाइन मोड। मैं सिर्फ़ आम चीज़ें पहचान सकता हूँ, जैसे लोग, वाहन और फर्नीचर।',
+  offlineModeOff: 'फिर से ऑनलाइन।',
+  offlineNothingDetected: 'ऑफ़लाइन मोड: आसपास कुछ पहचान में नहीं आया।',
+  offlineBadge: 'ऑफ़लाइन',
+  needsConnection: 'इसके लिए इंटरनेट कनेक्शन चाहिए। दृश्य विवरण और नेविगेशन ऑफ़लाइन भी काम करते हैं।',
+  offlineDetectorUnavailable: 'ऑफ़लाइन पहचान मॉडल लोड नहीं हो सका, इसलिए इंटरनेट के बिना मैं कुछ नहीं बता सकता।',
+  offlineUnavailableBadge: 'ऑफ़लाइन मोड नहीं',
+  voiceSettings: 'वॉइस सेटिंग्स',
+  voiceLabel: 'आवाज़',
+  speechRate: (rate: number) => `बोलने की गति (${rate.toFixed(1)}x)`,
+  voicePitch: (pitch: number) => `आवाज़ की पिच (${pitch.toFixed(1)})`,
+  rateScale: { slow: 'धीमी', normal: 'सामान्य', fast: 'तेज़' },
+  pitchScale: { low: 'नीची', normal: 'सामान्य', high: 'ऊँची' },
+  testVoice: 'आवाज़ जाँचें',
+  browserNotSupported: 'ब्राउज़र समर्थित नहीं है',
+  browserNotSupportedMessage: 'माफ़ कीजिए, आपका ब्राउज़र वाक् पहचान का समर्थन नहीं करता।',
+  browserNotSupportedHint: 'कृपया Chrome, Edge या Safari इस्तेमाल करें।',
+  microphoneRequired: 'माइक्रोफ़ोन की अनुमति ज़रूरी है',
+  microphoneRequiredMessage: 'वॉइस कमांड इस्तेमाल करने के लिए माइक्रोफ़ोन की अनुमति दें।',
+  microphoneRequiredHint: 'आप इसे ब्राउज़र सेटिंग्स में बदल सकते हैं।',
+  detectionOverlay: 'पहचान बॉक्स दिखाएं',
+  detectionOverlayHint: 'कम दृष्टि वाले उपयोगकर्ताओं और सहायकों के लिए कैमरा दृश्य पर खतरे और वस्तुएं गहरे रंगों में दिखाता है।',
+  overlayLabelSize: 'बॉक्स लेबल का आकार',
+  overlayLabelSizeNames: { small: 'छोटा', medium: 'मध्यम', large: 'बड़ा' },
+  noveltySensitivity: 'केवल बदलाव बताएं',
+  noveltySensitivityNames: { off: 'बंद (हर परिणाम बताएं)', low: 'कम (केवल बड़े बदलाव)', medium: 'मध्यम', high: 'अधिक (छोटे बदलाव भी)' },
+  noveltySensitivityHint: 'दृश्य वैसा ही होने पर केवल नए खतरे और वस्तुएं बोली जाती हैं।',
+  unchangedCue: 'कुछ न बदलने पर',
+  unchangedCueNames: { silent: 'चुप रहें', tick: 'हल्की टिक की आवाज़' },
+  newInView: (objects: NewObject[]) =>
+    `नया दिखा: ${objects
+      .map((o) => `${o.position ? `${positionNames[o.position]} ` : ''}${o.count > 1 ? `${o.count} ` : ''}${o.label}`)
+      .join(', ')}।`,
+  hapticSettings: 'कंपन चेतावनी',
+  hapticsEnabled: 'खतरों पर कंपन करें',
+  hapticsHint: 'कंपन की लंबाई गंभीरता बताती है; फिर एक टैप का मतलब बाईं ओर, दो सामने, तीन दाईं ओर।',
+  hapticsUnsupported: 'यह डिवाइस या ब्राउज़र कंपन नहीं कर सकता।',
+  hapticIntensity: 'कंपन की तीव्रता',
+  hapticIntensityNames: { gentle: 'हल्का', normal: 'सामान्य', strong: 'तेज़' },
+  teachHaptics: 'पैटर्न सिखाएं',
+  hapticLessonSeverity: { critical: 'गंभीर खतरा।', warning: 'चेतावनी।', info: 'जानकारी।' },
+  hapticLessonSide: (position: ObjectPosition) => `खतरा ${positionNames[position]}।`,
+  hapticLessonDone: 'ये सभी पैटर्न थे।',
+  earconSettings: 'खतरे की ध्वनियाँ',
+  earconsEnabled: 'हर खतरे के लिए ध्वनि बजाएं',
+  earconsHint: 'हर तरह के खतरे की अपनी छोटी ध्वनि है, जो उसी तरफ़ सुनाई देती है जहाँ खतरा है। हेडफ़ोन के साथ सबसे अच्छा।',
+  earconsUnsupported: 'यह ब्राउज़र खतरे की ध्वनियाँ नहीं बजा सकता।',
+  earconVolume: (volume: number) => `आवाज़: ${Math.round(volume * 100)}%`,
+  earconsOnly: 'केवल ध्वनियाँ, बोला गया विवरण नहीं',
+  earconsOnlyHint: 'अपने आप होने वाले विवरण बोले नहीं जाते; आपके आदेशों के जवाब फिर भी बोले जाते हैं।',
+  previewEarcons: 'ध्वनियाँ सुनाएं',
+  helpMessage: (mode: Mode, commands: (keyof CommandPhrases)[]) =>
+    `${modeNames[mode]} मोड में आप कह सकते हैं: ${commands.map((id) => commandHelp[id]).join('; ')}।`,
+  autoAnalysisPaused: 'स्वचालित विश्लेषण रुका है',
+  analysisPaused: 'अपने आप विवरण देना रोक दिया है। फिर शुरू करने के लिए "विश्लेषण शुरू करो" कहें।',
+  analysisResumed: 'अपने आप विवरण देना फिर से शुरू।',
+  nothingToRepeat: 'मैंने अभी तक कुछ नहीं कहा है।',
+  speechRateChanged: (rate: number) => `अब ${rate.toFixed(1)} गुना गति से बोल रहा हूँ।`,
+  listeningSettings: 'सुनना',
+  listeningMode: 'कमांड कब सुनें',
+  listeningModeNames: { always: 'हर समय', wakePhrase: 'सिर्फ़ वेक फ़्रेज़ के बाद' },
+  wakePhrase: 'वेक फ़्रेज़ (डिफ़ॉल्ट के लिए खाली छोड़ें)',
+  wakePhraseHint: (phrase: string, seconds: number) =>
+    `"${phrase}" कहें, घंटी सुनें, फिर ${seconds} सेकंड के अंदर कमांड दें या सवाल पूछें। उतरती घंटी का मतलब है कि सुनना बंद हो गया।`,
+  waitingForWakePhrase: (phrase: string) => `कमांड देने के लिए "${phrase}" कहें`
+};
+
+export const hi: LocalePack = {
+  nativeName: 'हिंदी',
+  speechLang: 'hi-IN',
+  voiceTags: ['hi-IN', 'hi'],
+  modelLanguage: 'natural Hindi with proper Hindi grammar and phrasing, ONLY in Devanagari script',
+  commands: {
+    navigation: ['नेविगेशन', 'नेविगेट'],
+    scene: ['दृश्य विवरण', 'दृश्य मोड'],
+    hazards: ['खतरे', 'कोई खतरा'],
+    switchLanguage: ['भाषा बदलें'],
+    read: ['पढ़ो', 'यह पढ़ो', 'इसे पढ़ो'],
+    currency: ['कौन सा नोट', 'नोट पहचानो', 'पैसे देखो'],
+    color: ['कौन सा रंग', 'रंग क्या है', 'ये किस रंग का है'],
+    light: ['क्या लाइट जल रही है', 'रोशनी कितनी है'],
+    find: [/^(?:मेरी |मेरा |मेरे )?(.+?) (?:ढूंढो|ढूँढो|खोजो)$/],
+    continueReading: ['आगे', 'जारी रखो'],
+    repeat: ['दोहराओ', 'फिर से'],
+    stop: ['रुको', 'बंद करो', 'पढ़ना बंद करो'],
+    pauseAnalysis: ['विश्लेषण रोको', 'रोक दो', 'पॉज़'],
+    resumeAnalysis: ['विश्लेषण शुरू करो', 'फिर से शुरू करो', 'रिज़्यूम'],
+    describeNow: ['अभी बताओ', 'अभी देखो', 'अभी विश्लेषण करो'],
+    tellMeMore: ['और बताओ', 'विस्तार से बताओ', 'और विस्तार से'],
+    stopTalking: ['चुप हो जाओ', 'बोलना बंद करो', 'चुप'],
+    faster: ['तेज़ बोलो', 'जल्दी बोलो', 'और तेज़'],
+    slower: ['धीरे बोलो', 'और धीरे'],
+    help: ['मदद', 'सहायता', 'मैं क्या बोल सकता हूँ']
+  },
+  questionPrefixes: ['सवाल', 'प्रश्न'],
+  // Question words can appear anywhere in the sentence.
+  questionPattern: /(?:क्या|कौन|कहाँ|कहां|कैसा|कैसी|कैसे|कितना|कितनी|कितने|किस|क्यों|बताओ)/,
+  wakePhrases: ['हे साइटसाउंड', 'हेलो साइटसाउंड', 'hey sightsound'],
+  strings
+};
@@ -0,0 +1,56 @@
+// Registry of locale packs. Adding a language means adding a pack file and listing it here.
+
+import { en } from './en';
+import { hi } from './hi';
+import { ml } from './ml';
+import { ta } from './ta';
+import { kn } from './kn';
+import { bn } from './bn';
+import type { CommandPhrases, LocalePack } from './types';
+
+export type { CommandPhrases, LocalePack, UiStrings } from './types';
+
+export const LOCALES = { en, hi, ml, ta, kn, bn } satisfies Record<string, LocalePack>;
+
+export type Language = keyof typeof LOCALES;
+
+// Order used when cycling through languages.
+export const LANGUAGES = Object.keys(LOCALES) as Language[];
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOCALES, value);
+}
+
+// Unknown codes (e.g. from an old client talking to the proxy) fall back to English.
+export function getLocale(language: string): LocalePack {
+  return isLanguage(language) ? LOCALES[language] : LOCALES[DEFAULT_LANGUAGE];
+}
+
+export function commandPhrases<K extends keyof CommandPhrases>(command: K): CommandPhrases[K] {
+  return LANGUAGES.flatMap((language) => LOCALES[language].commands[command]) as CommandPhrases[K];
+}
+
+// The user's saved voice if it can speak this language, otherwise the best voice matching
+// the pack's tags (Google voices first), otherwise whatever the browser offers.
+export function pickVoice(
+  voices: SpeechSynthesisVoice[],
+  language: Language,
+  savedVoiceName?: string | null
+): SpeechSynthesisVoice | undefined {
+  const tags = LOCALES[language].voiceTags.map((tag) => tag.toLowerCase());
+  const rank = (voice: SpeechSynthesisVoice) => {
+    const lang = voice.lang.toLowerCase().replace('_', '-');
+    const index = tags.findIndex((tag) => lang === tag || lang.startsWith(`${tag}-`));
+    return index === -1 ? Infinity : index;
+  };
+
+  const saved = voices.find((v) => v.name === savedVoiceName);
+  if (saved && rank(saved) !== Infinity) return saved;
+
+  const candidates = voices
+    .filter((v) => rank(v) !== Infinity)
+    .sort((a, b) => rank(a) - rank(b) || Number(b.name.includes('Google')) - Number(a.name.includes('Google')));
+  return candidates[0] ?? saved ?? voices[0];
+}
@@ -0,0 +1,264 @@
+// Kannada locale pack.
+
+import type { Hazard, HazardDistance, HazardSeverity, HazardType } from '../services/hazards';
+import type { Mode } from '../modes';
+import type { CurrencyNote, ObjectPosition } from '../services/analysisSchema';
+import type { NewObject } from '../services/noveltyFilter';
+import type { ColorName, ColorShade, DetectedColor, LightLevel } from '../services/colorAnalysis';
+import { groupNotes, hasCritical, percent } from './helpers';
+import type { CommandPhrases, LocalePack, UiStrings } from './types';
+
+const modeNames: Record<Mode, string> = { scene: 'ದೃಶ್ಯ ವಿವರಣೆ', navigation: 'ಮಾರ್ಗದರ್ಶನ', read: 'ಓದುವ', currency: 'ಕರೆನ್ಸಿ', find: 'ಹುಡುಕಾಟ' };
+
+const distanceNames: Record<HazardDistance, string> = { near: 'ಹತ್ತಿರದಲ್ಲಿ', medium: 'ಕೆಲವು ಹೆಜ್ಜೆ ದೂರದಲ್ಲಿ', far: 'ದೂರದಲ್ಲಿ' };
+
+const hazardLocation = (h: Hazard) => `${h.clock} ಗಂಟೆಯ ದಿಕ್ಕಿನಲ್ಲಿ, ${distanceNames[h.distance]}`;
+
+const hazardNames: Record<HazardType, string> = {
+  vehicle: 'ವಾಹನ',
+  traffic: 'ಸಂಚಾರ',
+  weapon: 'ಆಯುಧ',
+  stairs: 'ಮೆಟ್ಟಿಲುಗಳು',
+  step: 'ಮೆಟ್ಟಿಲು',
+  hole: 'ಗುಂಡಿ',
+  uneven_surface: 'ಅಸಮ ನೆಲ',
+  wet_floor: 'ಒದ್ದೆ ನೆಲ',
+  water: 'ನೀರು',
+  obstacle: 'ಅಡಚಣೆ',
+  moving_object: 'ಚಲಿಸುವ ವಸ್ತು',
+  person: 'ವ್ಯಕ್ತಿ',
+  crowd: 'ಜನಸಂದಣಿ',
+  construction: 'ನಿರ್ಮಾಣ ಕಾಮಗಾರಿ',
+  door: 'ಬಾಗಿಲು',
+  wall: 'ಗೋಡೆ',
+  furniture: 'ಪೀಠೋಪಕರಣ',
+  glass: 'ಗಾಜು',
+  sharp_object: 'ಚೂಪಾದ ವಸ್ತು',
+  electric: 'ವಿದ್ಯುತ್',
+  hot_surface: 'ಬಿಸಿ ಮೇಲ್ಮೈ',
+  other: 'ಅಪಾಯ'
+};
+
+const hazardPhrase = (h: Hazard) => (h.detail ? `${hazardNames[h.type]}, ${h.detail}` : hazardNames[h.type]);
+
+const positionNames: Record<ObjectPosition, string> = { left: 'ನಿಮ್ಮ ಎಡಕ್ಕೆ', center: 'ನೇರವಾಗಿ ಮುಂದೆ', right: 'ನಿಮ್ಮ ಬಲಕ್ಕೆ' };
+
+const colorNames: Record<ColorName, string> = {
+  black: 'ಕಪ್ಪು', white: 'ಬಿಳಿ', gray: 'ಬೂದು', red: 'ಕೆಂಪು', orange: 'ಕಿತ್ತಳೆ', yellow: 'ಹಳದಿ',
+  green: 'ಹಸಿರು', teal: 'ನೀಲಿಹಸಿರು', blue: 'ನೀಲಿ', purple: 'ನೇರಳೆ', pink: 'ಗುಲಾಬಿ', brown: 'ಕಂದು'
+};
+
+const shadeNames: Record<ColorShade, string> = { light: 'ತಿಳಿ', dark: 'ಗಾಢ' };
+
+const colorPhrase = (color: DetectedColor) =>
+  color.shade ? `${shadeNames[color.shade]} ${colorNames[color.name]}` : colorNames[color.name];
+
+// What each command does, with an example phrase, for the spoken help.
+const commandHelp: Record<keyof CommandPhrases, string> = {
+  navigation: '"ದಾರಿ ತೋರಿಸು" ನಡೆಯಲು ಮಾರ್ಗದರ್ಶನಕ್ಕೆ',
+  scene: '"ದೃಶ್ಯ ವಿವರಣೆ" ಸುತ್ತಲಿರುವುದನ್ನು ಕೇಳಲು',
+  hazards: '"ಅಪಾಯಗಳು" ಇತ್ತೀಚಿನ ಅಪಾಯಗಳನ್ನು ಮತ್ತೆ ಕೇಳಲು',
+  switchLanguage: '"ಭಾಷೆ ಬದಲಿಸು" ಭಾಷೆ ಬದಲಿಸಲು',
+  read: '"ಇದನ್ನು ಓದು" ಬರಹವನ್ನು ಓದಿಸಲು',
+  currency: '"ಯಾವ ನೋಟು" ನೋಟನ್ನು ಗುರುತಿಸಲು',
+  color: '"ಯಾವ ಬಣ್ಣ" ಮುಂದಿರುವ ಬಣ್ಣ ತಿಳಿಯಲು',
+  light: '"ಲೈಟ್ ಆನ್ ಇದೆಯಾ" ಬೆಳಕು ಪರೀಕ್ಷಿಸಲು',
+  find: '"ನನ್ನ ಕೀಲಿ ಹುಡುಕು" ಒಂದು ವಸ್ತುವನ್ನು ಹುಡುಕಲು',
+  continueReading: '"ಮುಂದಿನದು" ಮುಂದಿನ ಭಾಗಕ್ಕೆ',
+  repeat: '"ಮತ್ತೆ ಹೇಳು" ಕೊನೆಯದಾಗಿ ಹೇಳಿದ್ದನ್ನು ಮತ್ತೆ ಕೇಳಲು',
+  stop: '"ನಿಲ್ಲಿಸು" ನಿಲ್ಲಿಸಲು',
+  pauseAnalysis: '"ವಿಶ್ಲೇಷಣೆ ನಿಲ್ಲಿಸು" ತಾನಾಗಿ ವಿವರಿಸುವುದನ್ನು ನಿಲ್ಲಿಸಲು',
+  resumeAnalysis: '"ವಿಶ್ಲೇಷಣೆ ಮುಂದುವರಿಸು" ಮತ್ತೆ ವಿವರಿಸಲು',
+  describeNow: '"ಈಗ ವಿವರಿಸು" ತಕ್ಷಣ ಹೊಸ ವಿವರಣೆಗೆ',
+  tellMeMore: '"ಇನ್ನಷ್ಟು ಹೇಳು" ಕೊನೆಯ ದೃಶ್ಯದ ವಿವರವಾದ ವಿವರಣೆಗೆ',
+  stopTalking: '"ಮಾತು ನಿಲ್ಲಿಸು" ಮಾತು ನಿಲ್ಲಿಸಲು',
+  faster: '"ವೇಗವಾಗಿ ಮಾತನಾಡು" ಮಾತಿನ ವೇಗ ಹೆಚ್ಚಿಸಲು',
+  slower: '"ನಿಧಾನವಾಗಿ ಮಾತನಾಡು" ಮಾತಿನ ವೇಗ ಕಡಿಮೆ ಮಾಡಲು',
+  help: '"ಸಹಾಯ" ಈ ಪಟ್ಟಿಯನ್ನು ಮತ್ತೆ ಕೇಳಲು'
+};
+
+const strings: UiStrings = {
+  switchedToMode: (mode: Mode) => `${modeNames[mode]} ಮೋಡ್‌ಗೆ ಬದಲಾಯಿಸಲಾಗಿದೆ`,
+  sceneMode: 'ದೃಶ್ಯ ವಿವರಣೆ',
+  navigationMode: 'ಮಾರ್ಗದರ್ಶನ',
+  analyzing: 'ವಿಶ್ಲೇಷಿಸಲಾಗುತ್ತಿದೆ...',
+  listeningToCommand: 'ಆಜ್ಞೆಯನ್ನು ಕೇಳಲಾಗುತ್ತಿದೆ...',
+  autoAnalyzing: 'ಸ್ವಯಂ ವಿಶ್ಲೇಷಣೆ',
+  hazardsDetected: 'ಸಂಭಾವ್ಯ ಅಪಾಯಗಳು ಪತ್ತೆಯಾಗಿವೆ',
+  noHazards: 'ದೃಶ್ಯದಲ್ಲಿ ತಕ್ಷಣದ ಅಪಾಯ ಯಾವುದೂ ಕಾಣುತ್ತಿಲ್ಲ.',
+  detectedHazards: (hazards: Hazard[]) =>
+    `${hasCritical(hazards) ? 'ಅಪಾಯ! ' : ''}ನಾನು ಪತ್ತೆಹಚ್ಚಿದ ಅಪಾಯಗಳು: ${hazards
+      .map((h) => `${hazardPhrase(h)}, ${hazardLocation(h)}`)
+      .join('; ')}`,
+  hazardLocation,
+  hazardNames,
+  severityNames: { critical: 'ಗಂಭೀರ', warning: 'ಎಚ್ಚರಿಕೆ', info: 'ಮಾಹಿತಿ' } as Record<HazardSeverity, string>,
+  analyzingScene: 'ದೃಶ್ಯವನ್ನು ವಿಶ್ಲೇಷಿಸಲಾಗುತ್ತಿದೆ...',
+  analyzingNavigation: 'ಮಾರ್ಗವನ್ನು ವಿಶ್ಲೇಷಿಸಲಾಗುತ್ತಿದೆ...',
+  errorAnalyzing: 'ಚಿತ್ರವನ್ನು ವಿಶ್ಲೇಷಿಸುವಲ್ಲಿ ತೊಂದರೆಯಾಗಿದೆ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  voiceSettingsUpdated: 'ಧ್ವನಿ ಸೆಟ್ಟಿಂಗ್‌ಗಳನ್ನು ನವೀಕರಿಸಲಾಗಿದೆ',
+  testMessage: 'ಇದು ಪ್ರಸ್ತುತ ಧ್ವನಿ ಸೆಟ್ಟಿಂಗ್‌ಗಳೊಂದಿಗೆ ಒಂದು ಪರೀಕ್ಷಾ ಸಂದೇಶ',
+  analysisSettings: 'ವಿಶ್ಲೇಷಣೆ ಸೆಟ್ಟಿಂಗ್‌ಗಳು',
+  frameChangeSensitivity: 'ದೃಶ್ಯ ಬದಲಾವಣೆ ಸೂಕ್ಷ್ಮತೆ',
+  frameChangeSensitivityNames: { off: 'ಆಫ್ (ಪ್ರತಿ ಚಿತ್ರವನ್ನೂ ವಿಶ್ಲೇಷಿಸು)', low: 'ಕಡಿಮೆ', medium: 'ಮಧ್ಯಮ', high: 'ಹೆಚ್ಚು' },
+  frameChangeSensitivityHint: 'ಹೆಚ್ಚು ಬದಲಾಗದ ಚಿತ್ರಗಳಿಗೆ ಮತ್ತೆ ವಿಶ್ಲೇಷಿಸುವ ಬದಲು ಹಿಂದಿನ ಫಲಿತಾಂಶವನ್ನೇ ಬಳಸಲಾಗುತ್ತದೆ.',
+  capturePolicy: 'ಚಿತ್ರ ಸೆರೆಹಿಡಿಯುವ ಆವರ್ತನ',
+  capturePolicyNames: { fixed: 'ಸ್ಥಿರ (ಪ್ರತಿ 10 ಸೆಕೆಂಡಿಗೆ)', adaptive: 'ಮೋಡ್‌ಗೆ ತಕ್ಕಂತೆ', motion: 'ಚಲನೆಗೆ ತಕ್ಕಂತೆ' },
+  capturePolicyHints: {
+    fixed: 'ಪ್ರತಿ 10 ಸೆಕೆಂಡಿಗೆ ದೃಶ್ಯವನ್ನು ವಿಶ್ಲೇಷಿಸುತ್ತದೆ.',
+    adaptive: 'ಮಾರ್ಗದರ್ಶನದಲ್ಲಿ ಪ್ರತಿ 3 ಸೆಕೆಂಡಿಗೆ, ಇಲ್ಲದಿದ್ದರೆ ಪ್ರತಿ 10 ಸೆಕೆಂಡಿಗೆ. ಬ್ಯಾಟರಿ ಕಡಿಮೆಯಾದಾಗ ನಿಧಾನವಾಗುತ್ತದೆ.',
+    motion: 'ನಡೆಯುವಾಗ ಪ್ರತಿ 2 ರಿಂದ 5 ಸೆಕೆಂಡಿಗೆ, ನಿಂತಿರುವಾಗ ಪ್ರತಿ 20 ಸೆಕೆಂಡಿಗೆ. ಬ್ಯಾಟರಿ ಕಡಿಮೆಯಾದಾಗ ನಿಧಾನವಾಗುತ್ತದೆ.'
+  },
+  readMode: 'ಪಠ್ಯ ಓದು',
+  readModeHint: 'ಮುದ್ರಿತ ಪಠ್ಯದ ಕಡೆಗೆ ಕ್ಯಾಮೆರಾ ತೋರಿಸಿ "ಇದನ್ನು ಓದು" ಎಂದು ಹೇಳಿ.',
+  noTextFound: 'ಓದಬಹುದಾದ ಪಠ್ಯ ಸಿಗಲಿಲ್ಲ. ಕ್ಯಾಮೆರಾವನ್ನು ಹತ್ತಿರ ಮತ್ತು ಸ್ಥಿರವಾಗಿ ಹಿಡಿದು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  readingIntro: (summary: string, parts: number) =>
+    `${summary || 'ಪಠ್ಯ ಸಿಕ್ಕಿದೆ'}${parts > 1 ? `, ${parts} ಭಾಗಗಳಲ್ಲಿ` : ''}.`,
+  readingContinuePrompt: 'ಮುಂದಿನ ಭಾಗಕ್ಕೆ "ಮುಂದುವರಿಸು", ಮತ್ತೆ ಕೇಳಲು "ಮತ್ತೆ ಹೇಳು", ಅಥವಾ "ನಿಲ್ಲಿಸು" ಎಂದು ಹೇಳಿ.',
+  readingPart: (current: number, total: number) => `ಭಾಗ ${current} / ${total}`,
+  endOfText: 'ಪಠ್ಯ ಮುಗಿಯಿತು.',
+  noReadingInProgress: 'ಈಗ ಏನನ್ನೂ ಓದಲಾಗುತ್ತಿಲ್ಲ. ಮೊದಲು "ಇದನ್ನು ಓದು" ಎಂದು ಹೇಳಿ.',
+  readingStopped: 'ಓದುವುದನ್ನು ನಿಲ್ಲಿಸಲಾಗಿದೆ.',
+  currencyMode: 'ಕರೆನ್ಸಿ',
+  currencyModeHint: 'ಕ್ಯಾಮೆರಾದ ಮುಂದೆ ಒಂದು ನೋಟನ್ನು ಹಿಡಿಯಿರಿ.',
+  currencyResult: (notes: CurrencyNote[], total: number) =>
+    notes.length === 1
+      ? `${notes[0].denomination} ರೂಪಾಯಿ. ${percent(notes[0].confidence)} ಶೇಕಡಾ ಖಚಿತ.`
+      : `${notes.length} ನೋಟುಗಳು: ${groupNotes(notes)
+          .map((g) => `${g.denomination} ರೂಪಾಯಿಯ ${g.count}`)
+          .join(', ')}. ಒಟ್ಟು ${total} ರೂಪಾಯಿ.`,
+  currencyConfidence: (confidence: number) => `${percent(confidence)}% ಖಚಿತ`,
+  currencyTotal: (total: number) => `ಒಟ್ಟು: ₹${total}`,
+  repositionNote: 'ಈ ನೋಟಿನ ಬಗ್ಗೆ ಖಚಿತವಿಲ್ಲ. ಅದನ್ನು ಚಪ್ಪಟೆಯಾಗಿ, ಕ್ಯಾಮೆರಾಗೆ ಹತ್ತಿರ, ಒಳ್ಳೆಯ ಬೆಳಕಿನಲ್ಲಿ ಹಿಡಿಯಿರಿ.',
+  noNoteFound: 'ಯಾವುದೇ ನೋಟು ಕಾಣುತ್ತಿಲ್ಲ. ನೋಟನ್ನು ಕ್ಯಾಮೆರಾದ ಮುಂದೆ ಹಿಡಿಯಿರಿ.',
+  askNoFrame: 'ನಾನು ಇನ್ನೂ ಏನನ್ನೂ ನೋಡಿಲ್ಲ. ಕ್ಯಾಮೆರಾ ತೋರಿಸಿ ಮತ್ತೆ ಕೇಳಿ.',
+  errorAnswering: 'ಕ್ಷಮಿಸಿ, ಅದಕ್ಕೆ ಉತ್ತರಿಸಲಾಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಕೇಳಿ.',
+  youAsked: 'ನೀವು ಕೇಳಿದ್ದು',
+  findMode: 'ವಸ್ತು ಹುಡುಕು',
+  findModeHint: 'ಹುಡುಕಾಟ ಶುರು ಮಾಡಲು "ನನ್ನ ಕೀ ಹುಡುಕು" ಎಂದು, ಮುಗಿಸಲು "ನಿಲ್ಲಿಸು" ಎಂದು ಹೇಳಿ.',
+  searchingFor: (target: string) => `ಹುಡುಕುತ್ತಿರುವುದು: ${target}`,
+  searchStarted: (target: string) => `${target} ಹುಡುಕುತ್ತಿದ್ದೇನೆ. ಕ್ಯಾಮೆರಾವನ್ನು ನಿಧಾನವಾಗಿ ಸುತ್ತಲೂ ತಿರುಗಿಸಿ.`,
+  objectFound: (target: string, position: ObjectPosition, distance: HazardDistance) =>
+    `${target} ಸಿಕ್ಕಿದೆ, ${positionNames[position]}, ${distanceNames[distance]}.`,
+  objectMoved: (position: ObjectPosition, distance: HazardDistance) =>
+    `ಈಗ ${positionNames[position]}, ${distanceNames[distance]}.`,
+  objectLost: (target: string) => `${target} ಕಾಣುತ್ತಿಲ್ಲ.`,
+  objectNotInView: 'ಇನ್ನೂ ಕಾಣಿಸಿಲ್ಲ',
+  objectInView: (position: ObjectPosition, distance: HazardDistance) =>
+    `ಕಾಣುತ್ತಿದೆ, ${positionNames[position]}, ${distanceNames[distance]}`,
+  searchStopped: (target: string) => `${target} ಹುಡುಕಾಟ ನಿಲ್ಲಿಸಲಾಗಿದೆ.`,
+  stopSearch: 'ಹುಡುಕಾಟ ನಿಲ್ಲಿಸು',
+  colorResult: (colors: DetectedColor[]) =>
+    colors.length === 0
+      ? 'ಬಣ್ಣ ಸ್ಪಷ್ಟವಾಗಿ ಕಾಣುತ್ತಿಲ್ಲ. ವಸ್ತುವನ್ನು ಕ್ಯಾಮೆರಾಗೆ ಇನ್ನೂ ಹತ್ತಿರ ತನ್ನಿ.'
+      : colors.length > 1
+      ? `ಹೆಚ್ಚಾಗಿ ${colorPhrase(colors[0])}, ಸ್ವಲ್ಪ ${colorPhrase(colors[1])}.`
+      : `ಇದು ${colorPhrase(colors[0])} ಬಣ್ಣದ್ದು.`,
+  lightResult: {
+    dark: 'ಕತ್ತಲಾಗಿದೆ. ಲೈಟ್ ಆಫ್ ಇರಬಹುದು.',
+    dim: 'ಬೆಳಕು ಕಡಿಮೆ ಇದೆ.',
+    normal: 'ಲೈಟ್ ಆನ್ ಇದೆ. ಬೆಳಕು ಸಾಮಾನ್ಯವಾಗಿದೆ.',
+    bright: 'ತುಂಬಾ ಪ್ರಕಾಶಮಾನವಾಗಿದೆ, ಬಹುಶಃ ಬಲವಾದ ದೀಪ ಅಥವಾ ಬಿಸಿಲು.'
+  } as Record<LightLevel, string>,
+  offlineModeOn: 'ಆಫ್‌ಲೈನ್ ಮೋಡ್. ಜನರು, ವಾಹನಗಳು, ಪೀಠೋಪಕರಣಗಳಂತಹ ಸಾಮಾನ್ಯ ವಸ್ತುಗಳನ್ನು ಮಾತ್ರ ಗುರುತಿಸಬಲ್ಲೆ.',
+  offlineModeOff: 'ಮತ್ತೆ ಆನ್‌ಲೈನ್.',
+  offlineNothingDetected: 'ಆಫ್‌ಲೈನ್ ಮೋಡ್: ಹತ್ತಿರದಲ್ಲಿ ಏನೂ ಗುರುತಿಸಲಾಗಲಿಲ್ಲ.',
+  offlineBadge: 'ಆಫ್‌ಲೈನ್',
+  needsConnection: 'ಇದಕ್ಕೆ ಇಂಟರ್ನೆಟ್ ಸಂಪರ್ಕ ಬೇಕು. ದೃಶ್ಯ ವಿವರಣೆ ಮತ್ತು ಮಾರ್ಗದರ್ಶನ ಆಫ್‌ಲೈನ್‌ನಲ್ಲೂ ಕೆಲಸ ಮಾಡುತ್ತವೆ.',
+  offlineDetectorUnavailable: 'ಆಫ್‌ಲೈನ್ ಪತ್ತೆ ಮಾದರಿಯನ್ನು ಲೋಡ್ ಮಾಡಲಾಗಲಿಲ್ಲ, ಹಾಗಾಗಿ ಇಂಟರ್ನೆಟ್ ಇಲ್ಲದೆ ನಾನು ಏನನ್ನೂ ವಿವರಿಸಲಾರೆ.',
+  offlineUnavailableBadge: 'ಆಫ್‌ಲೈನ್ ಮೋಡ್ ಇಲ್ಲ',
+  voiceSettings: 'ಧ್ವನಿ ಸೆಟ್ಟಿಂಗ್‌ಗಳು',
+  voiceLabel: 'ಧ್ವನಿ',
+  speechRate: (rate: number) => `ಮಾತಿನ ವೇಗ (${rate.toFixed(1)}x)`,
+  voicePitch: (pitch: number) => `ಧ್ವನಿಯ ಸ್ಥಾಯಿ (${pitch.toFixed(1)})`,
+  rateScale: { slow: 'ನಿಧಾನ', normal: 'ಸಾಮಾನ್ಯ', fast: 'ವೇಗ' },
+  pitchScale: { low: 'ತಗ್ಗು', normal: 'ಸಾಮಾನ್ಯ', high: 'ಎತ್ತರ' },
+  testVoice: 'ಧ್ವನಿ ಪರೀಕ್ಷಿಸಿ',
+  browserNotSupported: 'ಬ್ರೌಸರ್ ಬೆಂಬಲಿತವಾಗಿಲ್ಲ',
+  browserNotSupportedMessage: 'ಕ್ಷಮಿಸಿ, ನಿಮ್ಮ ಬ್ರೌಸರ್ ಧ್ವನಿ ಗುರುತಿಸುವಿಕೆಯನ್ನು ಬೆಂಬಲಿಸುವುದಿಲ್ಲ.',
+  browserNotSupportedHint: 'ದಯವಿಟ್ಟು Chrome, Edge ಅಥವಾ Safari ಬಳಸಿ ನೋಡಿ.',
+  microphoneRequired: 'ಮೈಕ್ರೋಫೋನ್ ಅನುಮತಿ ಅಗತ್ಯವಿದೆ',
+  microphoneRequiredMessage: 'ಧ್ವನಿ ಆಜ್ಞೆಗಳನ್ನು ಬಳಸಲು ಮೈಕ್ರೋಫೋನ್ ಅನುಮತಿ ನೀಡಿ.',
+  microphoneRequiredHint: 'ಇದನ್ನು ಬ್ರೌಸರ್ ಸೆಟ್ಟಿಂಗ್‌ಗಳಲ್ಲಿ ಬದಲಾಯಿಸಬಹುದು.',
+  detectionOverlay: 'ಪತ್ತೆ ಪೆಟ್ಟಿಗೆಗಳನ್ನು ತೋರಿಸು',
+  detectionOverlayHint: 'ಕಡಿಮೆ ದೃಷ್ಟಿಯವರು ಮತ್ತು ಸಹಾಯಕರಿಗಾಗಿ ಕ್ಯಾಮೆರಾ ದೃಶ್ಯದಲ್ಲಿ ಅಪಾಯಗಳು ಮತ್ತು ವಸ್ತುಗಳನ್ನು ಎದ್ದು ಕಾಣುವ ಬಣ್ಣಗಳಲ್ಲಿ ತೋರಿಸುತ್ತದೆ.',
+  overlayLabelSize: 'ಪೆಟ್ಟಿಗೆ ಲೇಬಲ್ ಗಾತ್ರ',
+  overlayLabelSizeNames: { small: 'ಚಿಕ್ಕದು', medium: 'ಮಧ್ಯಮ', large: 'ದೊಡ್ಡದು' },
+  noveltySensitivity: 'ಬದಲಾವಣೆಗಳನ್ನು ಮಾತ್ರ ತಿಳಿಸು',
+  noveltySensitivityNames: { off: 'ಆಫ್ (ಪ್ರತಿ ಫಲಿತಾಂಶವನ್ನೂ ತಿಳಿಸು)', low: 'ಕಡಿಮೆ (ದೊಡ್ಡ ಬದಲಾವಣೆಗಳು ಮಾತ್ರ)', medium: 'ಮಧ್ಯಮ', high: 'ಹೆಚ್ಚು (ಸಣ್ಣ ಬದಲಾವಣೆಗಳೂ)' },
+  noveltySensitivityHint: 'ದೃಶ್ಯ ಹಾಗೆಯೇ ಇದ್ದರೆ ಹೊಸ ಅಪಾಯಗಳು ಮತ್ತು ವಸ್ತುಗಳನ್ನು ಮಾತ್ರ ಹೇಳಲಾಗುತ್ತದೆ.',
+  unchangedCue: 'ಏನೂ ಬದಲಾಗದಿದ್ದಾಗ',
+  unchangedCueNames: { silent: 'ಮೌನವಾಗಿರು', tick: 'ಮೃದುವಾದ ಟಿಕ್ ಶಬ್ದ' },
+  newInView: (objects: NewObject[]) =>
+    `ಹೊಸದಾಗಿ ಕಾಣುತ್ತಿರುವುದು: ${objects
+      .map((o) => `${o.position ? `${positionNames[o.position]} ` : ''}${o.count > 1 ? `${o.count} ` : ''}${o.label}`)
+      .join(', ')}.`,
+  hapticSettings: 'ಕಂಪನ ಎಚ್ಚರಿಕೆಗಳು',
+  hapticsEnabled: 'ಅಪಾಯಗಳಿಗೆ ಕಂಪಿಸು',
+  hapticsHint: 'ಕಂಪನದ ಉದ್ದ ತೀವ್ರತೆಯನ್ನು ಹೇಳುತ್ತದೆ; ನಂತರ ಒಂದು ಟ್ಯಾಪ್ ಎಡ, ಎರಡು ಮುಂದೆ, ಮೂರು ಬಲ.',
+  hapticsUnsupported: 'ಈ ಸಾಧನ ಅಥವಾ ಬ್ರೌಸರ್ ಕಂಪಿಸಲಾರದು.',
+  hapticIntensity: 'ಕಂಪನದ ಶಕ್ತಿ',
+  hapticIntensityNames: { gentle: 'ಮೃದು', normal: 'ಸಾಮಾನ್ಯ', strong: 'ಬಲವಾದ' },
+  teachHaptics: 'ಮಾದರಿಗಳನ್ನು ಕಲಿಸು',
+  hapticLessonSeverity: { critical: 'ಗಂಭೀರ ಅಪಾಯ.', warning: 'ಎಚ್ಚರಿಕೆ.', info: 'ಮಾಹಿತಿ.' },
+  hapticLessonSide: (position: ObjectPosition) => `ಅಪಾಯ ${positionNames[position]}.`,
+  hapticLessonDone: 'ಇವೇ ಎಲ್ಲಾ ಮಾದರಿಗಳು.',
+  earconSettings: 'ಅಪಾಯದ ಶಬ್ದಗಳು',
+  earconsEnabled: 'ಪ್ರತಿ ಅಪಾಯಕ್ಕೂ ಶಬ್ದ ಮಾಡು',
+  earconsHint: 'ಪ್ರತಿ ರೀತಿಯ ಅಪಾಯಕ್ಕೂ ತನ್ನದೇ ಚಿಕ್ಕ ಶಬ್ದವಿದೆ, ಅಪಾಯ ಇರುವ ಕಡೆಯಲ್ಲಿ ಕೇಳಿಸುತ್ತದೆ. ಹೆಡ್‌ಫೋನ್‌ನೊಂದಿಗೆ ಉತ್ತಮ.',
+  earconsUnsupported: 'ಈ ಬ್ರೌಸರ್ ಅಪಾಯದ ಶಬ್ದಗಳನ್ನು ಕೇಳಿಸಲಾರದು.',
+  earconVolume: (volume: number) => `ಧ್ವನಿ ಮಟ್ಟ: ${Math.round(volume * 100)}%`,
+  earconsOnly: 'ಶಬ್ದಗಳು ಮಾತ್ರ, ಮಾತಿನ ವಿವರಣೆ ಬೇಡ',
+  earconsOnlyHint: 'ಸ್ವಯಂ ವಿವರಣೆಗಳನ್ನು ಹೇಳಲಾಗುವುದಿಲ್ಲ; ನಿಮ್ಮ ಆಜ್ಞೆಗಳಿಗೆ ಉತ್ತರಗಳನ್ನು ಹೇಳಲಾಗುತ್ತದೆ.',
+  previewEarcons: 'ಶಬ್ದಗಳನ್ನು ಕೇಳಿಸು',
+  helpMessage: (mode: Mode, commands: (keyof CommandPhrases)[]) =>
+    `${modeNames[mode]} ಮೋಡ್‌ನಲ್ಲಿ ನೀವು ಹೇಳಬಹುದು: ${commands.map((id) => commandHelp[id]).join('; ')}.`,
+  autoAnalysisPaused: 'ಸ್ವಯಂ ವಿಶ್ಲೇಷಣೆ ತಡೆಹಿಡಿಯಲಾಗಿದೆ',
+  analysisPaused: 'ತಾನಾಗಿ ವಿವರಿಸುವುದನ್ನು ತಡೆಹಿಡಿಯಲಾಗಿದೆ. ಮತ್ತೆ ಪ್ರಾರಂಭಿಸಲು "ವಿಶ್ಲೇಷಣೆ ಮುಂದುವರಿಸು" ಎಂದು ಹೇಳಿ.',
+  analysisResumed: 'ತಾನಾಗಿ ವಿವರಿಸುವುದು ಮತ್ತೆ ಪ್ರಾರಂಭವಾಗಿದೆ.',
+  nothingToRepeat: 'ನಾನು ಇನ್ನೂ ಏನೂ ಹೇಳಿಲ್ಲ.',
+  speechRateChanged: (rate: number) => `ಈಗ ${rate.toFixed(1)} ಪಟ್ಟು ವೇಗದಲ್ಲಿ ಮಾತನಾಡುತ್ತಿದ್ದೇನೆ.`,
+  listeningSettings: 'ಆಲಿಸುವಿಕೆ',
+  listeningMode: 'ಆಜ್ಞೆಗಳನ್ನು ಯಾವಾಗ ಆಲಿಸಬೇಕು',
+  listeningModeNames: { always: 'ಯಾವಾಗಲೂ', wakePhrase: 'ಎಚ್ಚರಿಸುವ ವಾಕ್ಯದ ನಂತರ ಮಾತ್ರ' },
+  wakePhrase: 'ಎಚ್ಚರಿಸುವ ವಾಕ್ಯ (ಡೀಫಾಲ್ಟ್‌ಗಾಗಿ ಖಾಲಿ ಬಿಡಿ)',
+  wakePhraseHint: (phrase: string, seconds: number) =>
+    `"${phrase}" ಎಂದು ಹೇಳಿ, ಗಂಟೆಯ ಸದ್ದಿನ ನಂತರ ${seconds} ಸೆಕೆಂಡುಗಳಲ್ಲಿ ಆಜ್ಞೆ ನೀಡಿ ಅಥವಾ ಪ್ರಶ್ನೆ ಕೇಳಿ. ಇಳಿಯುವ ಗಂಟೆಯ ಸದ್ದು ಆಲಿಸುವುದು ನಿಂತಿದೆ ಎಂದರ್ಥ.`,
+  waitingForWakePhrase: (phrase: string) => `ಆಜ್ಞೆ ನೀಡಲು "${phrase}" ಎಂದು ಹೇಳಿ`
+};
+
+export const kn: LocalePack = {
+  nativeName: 'ಕನ್ನಡ',
+  speechLang: 'kn-IN',
+  voiceTags: ['kn-IN', 'kn'],
+  modelLanguage: 'natural Kannada with proper Kannada grammar and phrasing, ONLY in Kannada script',
+  commands: {
+    navigation: ['ದಾರಿ ತೋರಿಸು', 'ಮಾರ್ಗದರ್ಶನ ಮೋಡ್'],
+    scene: ['ದೃಶ್ಯ ವಿವರಣೆ', 'ಏನು ಕಾಣುತ್ತಿದೆ'],
+    hazards: ['ಅಪಾಯಗಳು', 'ಏನಾದರೂ ಅಪಾಯ'],
+    switchLanguage: ['ಭಾಷೆ ಬದಲಿಸು'],
+    read: ['ಓದು', 'ಇದನ್ನು ಓದು'],
+    currency: ['ಯಾವ ನೋಟು', 'ಹಣ ನೋಡು'],
+    color: ['ಯಾವ ಬಣ್ಣ', 'ಇದು ಯಾವ ಬಣ್ಣ'],
+    light: ['ಲೈಟ್ ಆನ್ ಇದೆಯಾ', 'ಬೆಳಕು ಎಷ್ಟಿದೆ'],
+    find: [/^(?:ನನ್ನ )?(.+?) (?:ಹುಡುಕು|ಪತ್ತೆ ಮಾಡು)$/],
+    continueReading: ['ಮುಂದುವರಿಸು', 'ಮುಂದಿನದು'],
+    repeat: ['ಮತ್ತೆ ಹೇಳು', 'ಪುನರಾವರ್ತಿಸು'],
+    stop: ['ನಿಲ್ಲಿಸು', 'ಓದುವುದನ್ನು ನಿಲ್ಲಿಸು'],
+    pauseAnalysis: ['ವಿಶ್ಲೇಷಣೆ ನಿಲ್ಲಿಸು', 'ತಾತ್ಕಾಲಿಕವಾಗಿ ನಿಲ್ಲಿಸು'],
+    resumeAnalysis: ['ವಿಶ್ಲೇಷಣೆ ಮುಂದುವರಿಸು', 'ಮತ್ತೆ ಪ್ರಾರಂಭಿಸು'],
+    describeNow: ['ಈಗ ವಿವರಿಸು', 'ಈಗ ನೋಡು'],
+    tellMeMore: ['ಇನ್ನಷ್ಟು ಹೇಳು', 'ವಿವರವಾಗಿ ಹೇಳು'],
+    stopTalking: ['ಮಾತು ನಿಲ್ಲಿಸು', 'ಸುಮ್ಮನಿರು'],
+    faster: ['ವೇಗವಾಗಿ ಮಾತನಾಡು', 'ವೇಗ ಹೆಚ್ಚಿಸು'],
+    slower: ['ನಿಧಾನವಾಗಿ ಮಾತನಾಡು', 'ವೇಗ ಕಡಿಮೆ ಮಾಡು'],
+    help: ['ಸಹಾಯ', 'ಏನು ಹೇಳಬಹುದು']
+  },
+  questionPrefixes: ['ಪ್ರಶ್ನೆ'],
+  // Question words can appear anywhere. Yes/no questions end in the -ಆ clitic, but so do
+  // plenty of other words ("ಅಮ್ಮಾ", "ಬಾ"), so only verb forms that take it are matched:
+  // "ತೆರೆದಿದೆಯಾ", "ಇಲ್ಲವಾ", "ಬೇಕಾ", "ಇದ್ದಾರಾ".
+  questionPattern: /(?:ಏನು|ಎಲ್ಲಿ|ಯಾರು|ಯಾವ|ಎಷ್ಟು|ಹೇಗೆ|ಯಾಕೆ|ಏಕೆ|ಹೇಳು)|(?:ೆಯಾ|ಲ್ಲವಾ|ಲ್ವಾ|ಬೇಕಾ|ದ್ದಾರಾ)\s*\??$/,
+  wakePhrases: ['ಹೇ ಸೈಟ್‌ಸೌಂಡ್', 'hey sightsound'],
+  strings
+};
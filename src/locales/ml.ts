@@ -0,0 +1,262 @@
+// Malayalam locale pack.
+
+import type { Hazard, HazardDistance, HazardSeverity, HazardType } from '../services/hazards';
+import type { Mode } from '../modes';
+import type { CurrencyNote, ObjectPosition } from '../services/analysisSchema';
+import type { NewObject } from '../services/noveltyFilter';
+import type { ColorName, ColorShade, DetectedColor, LightLevel } from '../services/colorAnalysis';
+import { groupNotes, hasCritical, percent } from './helpers';
+import type { CommandPhrases, LocalePack, UiStrings } from './types';
+
+const modeNames: Record<Mode, string> = { scene: 'ദൃശ്യ വിവരണം', navigation: 'നാവിഗേഷൻ', read: 'വായന', currency: 'കറൻസി', find: 'തിരയൽ' };
+
+const distanceNames: Record<HazardDistance, string> = { near: 'അടുത്ത്', medium: 'കുറച്ച് ചുവട് അകലെ', far: 'ദൂരെ' };
+
+const hazardLocation = (h: Hazard) => `${h.clock} മണി ദിശയിൽ, ${distanceNames[h.distance]}`;
+
+const hazardNames: Record<HazardType, string> = {
+  vehicle: 'വാഹനം',
+  traffic: 'ഗതാഗതം',
+  weapon: 'ആയുധം',
+  stairs: 'പടികൾ',
+  step: 'പടി',
+  hole: 'കുഴി',
+  uneven_surface: 'അസമമായ പ്രതലം',
+  wet_floor: 'നനഞ്ഞ തറ',
+  water: 'വെള്ളം',
+  obstacle: 'തടസ്സം',
+  moving_object: 'ചലിക്കുന്ന വസ്തു',
+  person: 'വ്യക്തി',
+  crowd: 'ജനക്കൂട്ടം',
+  construction: 'നിർമ്മാണം',
+  door: 'വാതിൽ',
+  wall: 'ചുമർ',
+  furniture: 'ഫർണിച്ചർ',
+  glass: 'ഗ്ലാസ്',
+  sharp_object: 'മൂർച്ചയുള്ള വസ്തു',
+  electric: 'വൈദ്യുതി',
+  hot_surface: 'ചൂടുള്ള പ്രതലം',
+  other: 'അപകടം'
+};
+
+const hazardPhrase = (h: Hazard) => (h.detail ? `${hazardNames[h.type]}, ${h.detail}` : hazardNames[h.type]);
+
+const positionNames: Record<ObjectPosition, string> = { left: 'നിങ്ങളുടെ ഇടതുവശത്ത്', center: 'നേരെ മുന്നിൽ', right: 'നിങ്ങളുടെ വലതുവശത്ത്' };
+
+const colorNames: Record<ColorName, string> = {
+  black: 'കറുപ്പ്', white: 'വെള്ള', gray: 'ചാരനിറം', red: 'ചുവപ്പ്', orange: 'ഓറഞ്ച്', yellow: 'മഞ്ഞ',
+  green: 'പച്ച', teal: 'നീലപ്പച്ച', blue: 'നീല', purple: 'വയലറ്റ്', pink: 'പിങ്ക്', brown: 'തവിട്ട്'
+};
+
+const shadeNames: Record<ColorShade, string> = { light: 'ഇളം', dark: 'കടും' };
+
+const colorPhrase = (color: DetectedColor) =>
+  color.shade ? `${shadeNames[color.shade]} ${colorNames[color.name]}` : colorNames[color.name];
+
+// What each command does, with an example phrase, for the spoken help.
+const commandHelp: Record<keyof CommandPhrases, string> = {
+  navigation: '"നാവിഗേഷൻ" നടക്കാനുള്ള മാർഗനിർദേശത്തിന്',
+  scene: '"ദൃശ്യ വിവരണം" ചുറ്റുമുള്ളത് കേൾക്കാൻ',
+  hazards: '"അപകടങ്ങൾ" പുതിയ അപകടങ്ങൾ വീണ്ടും കേൾക്കാൻ',
+  switchLanguage: '"ഭാഷ മാറ്റുക" ഭാഷ മാറ്റാൻ',
+  read: '"ഇത് വായിക്കുക" എഴുത്ത് വായിച്ചു കേൾക്കാൻ',
+  currency: '"ഏത് നോട്ട്" നോട്ട് തിരിച്ചറിയാൻ',
+  color: '"ഏത് നിറം" മുന്നിലെ നിറം അറിയാൻ',
+  light: '"ലൈറ്റ് ഓണാണോ" വെളിച്ചം പരിശോധിക്കാൻ',
+  find: '"എന്റെ താക്കോൽ കണ്ടെത്തുക" ഒരു വസ്തു തിരയാൻ',
+  continueReading: '"അടുത്തത്" അടുത്ത ഭാഗത്തിന്',
+  repeat: '"ആവർത്തിക്കുക" അവസാനം പറഞ്ഞത് വീണ്ടും കേൾക്കാൻ',
+  stop: '"നിർത്തുക" നിർത്താൻ',
+  pauseAnalysis: '"വിശകലനം നിർത്തുക" സ്വയം വിവരിക്കുന്നത് നിർത്താൻ',
+  resumeAnalysis: '"വിശകലനം തുടരുക" വീണ്ടും വിവരിക്കാൻ',
+  describeNow: '"ഇപ്പോൾ വിവരിക്കുക" ഉടൻ പുതിയ വിവരണത്തിന്',
+  tellMeMore: '"കൂടുതൽ പറയൂ" അവസാന ദൃശ്യത്തിന്റെ വിശദമായ വിവരണത്തിന്',
+  stopTalking: '"സംസാരം നിർത്തുക" സംസാരം നിർത്താൻ',
+  faster: '"വേഗത്തിൽ സംസാരിക്കൂ" സംസാര വേഗത കൂട്ടാൻ',
+  slower: '"പതുക്കെ സംസാരിക്കൂ" സംസാര വേഗത കുറയ്ക്കാൻ',
+  help: '"സഹായം" ഈ പട്ടിക വീണ്ടും കേൾക്കാൻ'
+};
+
+const strings: UiStrings = {
+  switchedToMode: (mode: Mode) => `${modeNames[mode]} മോഡിലേക്ക് മാറി`,
+  sceneMode: 'ദൃശ്യ വിവരണം',
+  navigationMode: 'നാവിഗേഷൻ',
+  analyzing: 'വിശകലനം ചെയ്യുന്നു...',
+  listeningToCommand: 'നിർദ്ദേശം കേൾക്കുന്നു...',
+  autoAnalyzing: 'സ്വയം വിശകലനം ചെയ്യുന്നു',
+  hazardsDetected: 'സാധ്യമായ അപകടങ്ങൾ കണ്ടെത്തി',
+  noHazards: 'ദൃശ്യത്തിൽ അപകടങ്ങളൊന്നും കാണുന്നില്ല.',
+  detectedHazards: (hazards: Hazard[]) =>
+    `${hasCritical(hazards) ? 'അപകടം! ' : ''}ഞാൻ കണ്ടെത്തിയ അപകടങ്ങൾ: ${hazards
+      .map((h) => `${hazardPhrase(h)}, ${hazardLocation(h)}`)
+      .join('; ')}`,
+  hazardLocation,
+  hazardNames,
+  severityNames: { critical: 'ഗുരുതരം', warning: 'മുന്നറിയിപ്പ്', info: 'വിവരം' } as Record<HazardSeverity, string>,
+  analyzingScene: 'ദൃശ്യം വിശകലനം ചെയ്യുന്നു...',
+  analyzingNavigation: 'നാവിഗേഷൻ വിശകലനം ചെയ്യുന്നു...',
+  errorAnalyzing: 'ചിത്രം വിശകലനം ചെയ്യുന്നതിൽ പ്രശ്നമുണ്ട്. ദയവായി വീണ്ടും ശ്രമിക്കുക.',
+  voiceSettingsUpdated: 'വോയ്‌സ് ക്രമീകരണങ്ങൾ അപ്‌ഡേറ്റ് ചെയ്‌തു',
+  testMessage: 'ഇത് നിലവിലെ വോയ്‌സ് ക്രമീകരണങ്ങളുള്ള ഒരു പരീക്ഷണ സന്ദേശമാണ്',
+  analysisSettings: 'വിശകലന ക്രമീകരണങ്ങൾ',
+  frameChangeSensitivity: 'ദൃശ്യമാറ്റ സംവേദനക്ഷമത',
+  frameChangeSensitivityNames: { off: 'ഓഫ് (എല്ലാ ഫ്രെയിമും വിശകലനം ചെയ്യുക)', low: 'കുറവ്', medium: 'ഇടത്തരം', high: 'കൂടുതൽ' },
+  frameChangeSensitivityHint: 'കാര്യമായി മാറാത്ത ഫ്രെയിമുകൾക്ക് വീണ്ടും വിശകലനം ചെയ്യാതെ അവസാന ഫലം ഉപയോഗിക്കുന്നു.',
+  capturePolicy: 'ക്യാപ്ചർ ആവൃത്തി',
+  capturePolicyNames: { fixed: 'സ്ഥിരം (ഓരോ 10 സെക്കൻഡിലും)', adaptive: 'മോഡ് അനുസരിച്ച്', motion: 'ചലനം അനുസരിച്ച്' },
+  capturePolicyHints: {
+    fixed: 'ഓരോ 10 സെക്കൻഡിലും ദൃശ്യം വിശകലനം ചെയ്യുന്നു.',
+    adaptive: 'നാവിഗേഷനിൽ ഓരോ 3 സെക്കൻഡിലും, അല്ലാത്തപ്പോൾ ഓരോ 10 സെക്കൻഡിലും. ബാറ്ററി കുറവാണെങ്കിൽ വേഗത കുറയ്ക്കുന്നു.',
+    motion: 'നടക്കുമ്പോൾ ഓരോ 2 മുതൽ 5 സെക്കൻഡിലും, നിൽക്കുമ്പോൾ ഓരോ 20 സെക്കൻഡിലും. ബാറ്ററി കുറവാണെങ്കിൽ വേഗത കുറയ്ക്കുന്നു.'
+  },
+  readMode: 'വായന',
+  readModeHint: 'ക്യാമറ അച്ചടിച്ച എഴുത്തിന് നേരെ പിടിച്ച് "വായിക്കുക" എന്ന് പറയുക.',
+  noTextFound: 'വായിക്കാവുന്ന എഴുത്തൊന്നും കണ്ടെത്താനായില്ല. ക്യാമറ അടുത്തും സ്ഥിരമായും പിടിച്ച് വീണ്ടും ശ്രമിക്കുക.',
+  readingIntro: (summary: string, parts: number) =>
+    `${summary || 'എഴുത്ത് കണ്ടെത്തി'}${parts > 1 ? `, ${parts} ഭാഗങ്ങളിൽ` : ''}.`,
+  readingContinuePrompt: 'അടുത്ത ഭാഗത്തിന് "തുടരുക", വീണ്ടും കേൾക്കാൻ "ആവർത്തിക്കുക", അല്ലെങ്കിൽ "നിർത്തുക" എന്ന് പറയുക.',
+  readingPart: (current: number, total: number) => `ഭാഗം ${current} / ${total}`,
+  endOfText: 'എഴുത്ത് അവസാനിച്ചു.',
+  noReadingInProgress: 'ഇപ്പോൾ ഒന്നും വായിക്കുന്നില്ല. ആദ്യം "വായിക്കുക" എന്ന് പറയുക.',
+  readingStopped: 'വായന നിർത്തി.',
+  currencyMode: 'കറൻസി',
+  currencyModeHint: 'ഒരു നോട്ട് ക്യാമറയ്ക്ക് മുന്നിൽ പിടിക്കുക.',
+  currencyResult: (notes: CurrencyNote[], total: number) =>
+    notes.length === 1
+      ? `${notes[0].denomination} രൂപ. ${percent(notes[0].confidence)} ശതമാനം ഉറപ്പ്.`
+      : `${notes.length} നോട്ടുകൾ: ${groupNotes(notes)
+          .map((g) => `${g.denomination} രൂപയുടെ ${g.count} എണ്ണം`)
+          .join(', ')}. ആകെ ${total} രൂപ.`,
+  currencyConfidence: (confidence: number) => `${percent(confidence)}% ഉറപ്പ്`,
+  currencyTotal: (total: number) => `ആകെ: ₹${total}`,
+  repositionNote: 'ഈ നോട്ടിനെക്കുറിച്ച് ഉറപ്പില്ല. അത് നിവർത്തി, ക്യാമറയുടെ അടുത്ത്, നല്ല വെളിച്ചത്തിൽ പിടിക്കുക.',
+  noNoteFound: 'നോട്ടൊന്നും കാണുന്നില്ല. നോട്ട് ക്യാമറയ്ക്ക് മുന്നിൽ പിടിക്കുക.',
+  askNoFrame: 'ഞാൻ ഇതുവരെ ഒന്നും കണ്ടിട്ടില്ല. ക്യാമറ തിരിച്ച് വീണ്ടും ചോദിക്കുക.',
+  errorAnswering: 'ക്ഷമിക്കണം, അതിന് ഉത്തരം നൽകാൻ കഴിഞ്ഞില്ല. വീണ്ടും ചോദിക്കുക.',
+  youAsked: 'നിങ്ങൾ ചോദിച്ചത്',
+  findMode: 'വസ്തു കണ്ടെത്തുക',
+  findModeHint: '"എന്റെ താക്കോൽ കണ്ടെത്തുക" എന്ന് പറഞ്ഞ് തിരയൽ തുടങ്ങുക, "നിർത്തുക" എന്ന് പറഞ്ഞ് അവസാനിപ്പിക്കുക.',
+  searchingFor: (target: string) => `തിരയുന്നത്: ${target}`,
+  searchStarted: (target: string) => `${target} തിരയുന്നു. ക്യാമറ പതുക്കെ ചുറ്റും നീക്കുക.`,
+  objectFound: (target: string, position: ObjectPosition, distance: HazardDistance) =>
+    `${target} കണ്ടെത്തി, ${positionNames[position]}, ${distanceNames[distance]}.`,
+  objectMoved: (position: ObjectPosition, distance: HazardDistance) =>
+    `ഇപ്പോൾ ${positionNames[position]}, ${distanceNames[distance]}.`,
+  objectLost: (target: string) => `${target} ഇപ്പോൾ കാണുന്നില്ല.`,
+  objectNotInView: 'ഇതുവരെ കണ്ടില്ല',
+  objectInView: (position: ObjectPosition, distance: HazardDistance) =>
+    `കാണുന്നു, ${positionNames[position]}, ${distanceNames[distance]}`,
+  searchStopped: (target: string) => `${target} തിരയുന്നത് നിർത്തി.`,
+  stopSearch: 'തിരയൽ നിർത്തുക',
+  colorResult: (colors: DetectedColor[]) =>
+    colors.length === 0
+      ? 'നിറം വ്യക്തമല്ല. വസ്തു ക്യാമറയോട് കൂടുതൽ അടുപ്പിക്കുക.'
+      : colors.length > 1
+      ? `കൂടുതലും ${colorPhrase(colors[0])}, കൂടെ കുറച്ച് ${colorPhrase(colors[1])}.`
+      : `ഇത് ${colorPhrase(colors[0])} നിറമാണ്.`,
+  lightResult: {
+    dark: 'ഇരുട്ടാണ്. ലൈറ്റ് ഓഫ് ആയിരിക്കാം.',
+    dim: 'വെളിച്ചം കുറവാണ്.',
+    normal: 'ലൈറ്റ് ഓണാണ്. വെളിച്ചം സാധാരണ നിലയിലാണ്.',
+    bright: 'നല്ല വെളിച്ചമുണ്ട്, ശക്തമായ ലൈറ്റോ സൂര്യപ്രകാശമോ ആകാം.'
+  } as Record<LightLevel, string>,
+  offlineModeOn: 'ഓഫ്‌ലൈൻ മോഡ്. ആളുകൾ, വാഹനങ്ങൾ, ഫർണിച്ചർ പോലുള്ള സാധാരണ വസ്തുക്കൾ മാത്രമേ തിരിച്ചറിയാൻ കഴിയൂ.',
+  offlineModeOff: 'വീണ്ടും ഓൺലൈനിൽ.',
+  offlineNothingDetected: 'ഓഫ്‌ലൈൻ മോഡ്: അടുത്ത് ഒന്നും തിരിച്ചറിയാൻ കഴിയുന്നില്ല.',
+  offlineBadge: 'ഓഫ്‌ലൈൻ',
+  needsConnection: 'ഇതിന് ഇന്റർനെറ്റ് കണക്ഷൻ വേണം. ദൃശ്യ വിവരണവും നാവിഗേഷനും ഓഫ്‌ലൈനിലും പ്രവർത്തിക്കും.',
+  offlineDetectorUnavailable: 'ഓഫ്‌ലൈൻ തിരിച്ചറിയൽ മോഡൽ ലോഡ് ചെയ്യാനായില്ല, അതിനാൽ ഇന്റർനെറ്റ് ഇല്ലാതെ എനിക്ക് ഒന്നും വിവരിക്കാനാവില്ല.',
+  offlineUnavailableBadge: 'ഓഫ്‌ലൈൻ മോഡ് ഇല്ല',
+  voiceSettings: 'വോയ്‌സ് ക്രമീകരണങ്ങൾ',
+  voiceLabel: 'ശബ്ദം',
+  speechRate: (rate: number) => `സംസാര വേഗത (${rate.toFixed(1)}x)`,
+  voicePitch: (pitch: number) => `ശബ്ദ സ്ഥായി (${pitch.toFixed(1)})`,
+  rateScale: { slow: 'പതുക്കെ', normal: 'സാധാരണ', fast: 'വേഗം' },
+  pitchScale: { low: 'താഴ്ന്നത്', normal: 'സാധാരണ', high: 'ഉയർന്നത്' },
+  testVoice: 'ശബ്ദം പരീക്ഷിക്കുക',
+  browserNotSupported: 'ബ്രൗസർ പിന്തുണയ്ക്കുന്നില്ല',
+  browserNotSupportedMessage: 'ക്ഷമിക്കണം, നിങ്ങളുടെ ബ്രൗസർ സംഭാഷണ തിരിച്ചറിയൽ പിന്തുണയ്ക്കുന്നില്ല.',
+  browserNotSupportedHint: 'Chrome, Edge അല്ലെങ്കിൽ Safari ഉപയോഗിച്ച് ശ്രമിക്കുക.',
+  microphoneRequired: 'മൈക്രോഫോൺ അനുമതി ആവശ്യമാണ്',
+  microphoneRequiredMessage: 'വോയ്‌സ് നിർദ്ദേശങ്ങൾ ഉപയോഗിക്കാൻ മൈക്രോഫോൺ അനുമതി നൽകുക.',
+  microphoneRequiredHint: 'ബ്രൗസർ ക്രമീകരണങ്ങളിൽ ഇത് മാറ്റാം.',
+  detectionOverlay: 'കണ്ടെത്തൽ ബോക്സുകൾ കാണിക്കുക',
+  detectionOverlayHint: 'കാഴ്ചക്കുറവുള്ളവർക്കും സഹായികൾക്കുമായി ക്യാമറ ദൃശ്യത്തിൽ അപകടങ്ങളും വസ്തുക്കളും തെളിഞ്ഞ നിറങ്ങളിൽ കാണിക്കുന്നു.',
+  overlayLabelSize: 'ബോക്സ് ലേബൽ വലുപ്പം',
+  overlayLabelSizeNames: { small: 'ചെറുത്', medium: 'ഇടത്തരം', large: 'വലുത്' },
+  noveltySensitivity: 'മാറ്റങ്ങൾ മാത്രം അറിയിക്കുക',
+  noveltySensitivityNames: { off: 'ഓഫ് (എല്ലാ ഫലവും അറിയിക്കുക)', low: 'കുറവ് (വലിയ മാറ്റങ്ങൾ മാത്രം)', medium: 'ഇടത്തരം', high: 'കൂടുതൽ (ചെറിയ മാറ്റങ്ങളും)' },
+  noveltySensitivityHint: 'ദൃശ്യം മാറിയില്ലെങ്കിൽ പുതിയ അപകടങ്ങളും വസ്തുക്കളും മാത്രം പറയും.',
+  unchangedCue: 'ഒന്നും മാറിയില്ലെങ്കിൽ',
+  unchangedCueNames: { silent: 'നിശ്ശബ്ദമായിരിക്കുക', tick: 'മൃദുവായ ടിക് ശബ്ദം' },
+  newInView: (objects: NewObject[]) =>
+    `പുതുതായി കാണുന്നത്: ${objects
+      .map((o) => `${o.position ? `${positionNames[o.position]} ` : ''}${o.count > 1 ? `${o.count} ` : ''}${o.label}`)
+      .join(', ')}.`,
+  hapticSettings: 'വൈബ്രേഷൻ മുന്നറിയിപ്പുകൾ',
+  hapticsEnabled: 'അപകടങ്ങൾക്ക് വൈബ്രേറ്റ് ചെയ്യുക',
+  hapticsHint: 'വൈബ്രേഷന്റെ നീളം ഗൗരവം കാണിക്കുന്നു; തുടർന്ന് ഒരു ടാപ്പ് ഇടത്, രണ്ട് മുന്നിൽ, മൂന്ന് വലത്.',
+  hapticsUnsupported: 'ഈ ഉപകരണത്തിനോ ബ്രൗസറിനോ വൈബ്രേറ്റ് ചെയ്യാൻ കഴിയില്ല.',
+  hapticIntensity: 'വൈബ്രേഷൻ ശക്തി',
+  hapticIntensityNames: { gentle: 'മൃദു', normal: 'സാധാരണ', strong: 'ശക്തം' },
+  teachHaptics: 'പാറ്റേണുകൾ പഠിപ്പിക്കുക',
+  hapticLessonSeverity: { critical: 'ഗുരുതരമായ അപകടം.', warning: 'മുന്നറിയിപ്പ്.', info: 'വിവരം.' },
+  hapticLessonSide: (position: ObjectPosition) => `അപകടം ${positionNames[position]}.`,
+  hapticLessonDone: 'ഇവയാണ് എല്ലാ പാറ്റേണുകളും.',
+  earconSettings: 'അപകട ശബ്ദങ്ങൾ',
+  earconsEnabled: 'ഓരോ അപകടത്തിനും ശബ്ദം കേൾപ്പിക്കുക',
+  earconsHint: 'ഓരോ തരം അപകടത്തിനും സ്വന്തം ചെറിയ ശബ്ദമുണ്ട്, അപകടം ഉള്ള വശത്ത് കേൾക്കും. ഹെഡ്ഫോണിൽ മികച്ചത്.',
+  earconsUnsupported: 'ഈ ബ്രൗസറിന് അപകട ശബ്ദങ്ങൾ കേൾപ്പിക്കാൻ കഴിയില്ല.',
+  earconVolume: (volume: number) => `ശബ്ദം: ${Math.round(volume * 100)}%`,
+  earconsOnly: 'ശബ്ദങ്ങൾ മാത്രം, വിവരണം പറയേണ്ട',
+  earconsOnlyHint: 'സ്വയമേവയുള്ള വിവരണങ്ങൾ പറയില്ല; നിങ്ങളുടെ കമാൻഡുകൾക്കുള്ള മറുപടികൾ പറയും.',
+  previewEarcons: 'ശബ്ദങ്ങൾ കേൾപ്പിക്കുക',
+  helpMessage: (mode: Mode, commands: (keyof CommandPhrases)[]) =>
+    `${modeNames[mode]} മോഡിൽ നിങ്ങൾക്ക് പറയാം: ${commands.map((id) => commandHelp[id]).join('; ')}.`,
+  autoAnalysisPaused: 'സ്വയം വിശകലനം നിർത്തിവെച്ചു',
+  analysisPaused: 'സ്വയം വിവരിക്കുന്നത് നിർത്തിവെച്ചു. വീണ്ടും തുടങ്ങാൻ "വിശകലനം തുടരുക" എന്ന് പറയുക.',
+  analysisResumed: 'സ്വയം വിവരിക്കുന്നത് വീണ്ടും തുടങ്ങി.',
+  nothingToRepeat: 'ഞാൻ ഇതുവരെ ഒന്നും പറഞ്ഞിട്ടില്ല.',
+  speechRateChanged: (rate: number) => `ഇപ്പോൾ ${rate.toFixed(1)} മടങ്ങ് വേഗത്തിൽ സംസാരിക്കുന്നു.`,
+  listeningSettings: 'കേൾക്കൽ',
+  listeningMode: 'നിർദ്ദേശങ്ങൾ എപ്പോൾ കേൾക്കണം',
+  listeningModeNames: { always: 'എപ്പോഴും', wakePhrase: 'വേക്ക് വാചകത്തിന് ശേഷം മാത്രം' },
+  wakePhrase: 'വേക്ക് വാചകം (സ്ഥിരമായതിന് ശൂന്യമായി വിടുക)',
+  wakePhraseHint: (phrase: string, seconds: number) =>
+    `"${phrase}" എന്ന് പറയുക, മണിനാദം കേട്ടശേഷം ${seconds} സെക്കൻഡിനുള്ളിൽ നിർദ്ദേശം നൽകുകയോ ചോദ്യം ചോദിക്കുകയോ ചെയ്യുക. താഴുന്ന മണിനാദം കേൾക്കൽ നിർത്തിയെന്ന് അർത്ഥമാക്കുന്നു.`,
+  waitingForWakePhrase: (phrase: string) => `നിർദ്ദേശം നൽകാൻ "${phrase}" എന്ന് പറയുക`
+};
+
+export const ml: LocalePack = {
+  nativeName: 'മലയാളം',
+  speechLang: 'ml-IN',
+  voiceTags: ['ml-IN', 'ml'],
+  modelLanguage: 'natural Malayalam with proper Malayalam grammar and phrasing, ONLY in Malayalam script',
+  commands: {
+    navigation: ['നാവിഗേഷൻ', 'നാവിഗേഷൻ മോഡ്'],
+    scene: ['ദൃശ്യ വിവരണം', 'സീൻ മോഡ്'],
+    hazards: ['അപകടങ്ങൾ', 'അപകട സാധ്യതകൾ'],
+    switchLanguage: ['ഭാഷ മാറ്റുക'],
+    read: ['വായിക്കുക', 'ഇത് വായിക്കുക'],
+    currency: ['ഏത് നോട്ട്', 'പണം നോക്കുക', 'കറൻസി'],
+    color: ['ഏത് നിറം', 'നിറം എന്താണ്', 'ഇത് ഏത് നിറമാണ്'],
+    light: ['ലൈറ്റ് ഉണ്ടോ', 'ലൈറ്റ് ഓണാണോ', 'വെളിച്ചം എത്രയുണ്ട്'],
+    find: [/^(?:എന്റെ )?(.+?) (?:കണ്ടെത്തുക|തിരയുക)$/],
+    continueReading: ['തുടരുക', 'അടുത്തത്'],
+    repeat: ['ആവർത്തിക്കുക', 'വീണ്ടും'],
+    stop: ['നിർത്തുക', 'വായന നിർത്തുക'],
+    pauseAnalysis: ['വിശകലനം നിർത്തുക', 'താൽക്കാലികമായി നിർത്തുക', 'പോസ്'],
+    resumeAnalysis: ['വിശകലനം തുടരുക', 'വീണ്ടും തുടങ്ങുക', 'റെസ്യൂം'],
+    describeNow: ['ഇപ്പോൾ വിവരിക്കുക', 'ഇപ്പോൾ നോക്കുക'],
+    tellMeMore: ['കൂടുതൽ പറയൂ', 'വിശദമായി പറയൂ'],
+    stopTalking: ['സംസാരം നിർത്തുക', 'മിണ്ടാതിരിക്കൂ'],
+    faster: ['വേഗത്തിൽ സംസാരിക്കൂ', 'വേഗം കൂട്ടുക'],
+    slower: ['പതുക്കെ സംസാരിക്കൂ', 'വേഗം കുറയ്ക്കുക'],
+    help: ['സഹായം', 'എന്ത് പറയാം']
+  },
+  questionPrefixes: ['ചോദ്യം'],
+  // Question words can appear anywhere; yes/no questions end in the -ോ suffix ("തുറന്നിട്ടുണ്ടോ").
+  questionPattern: /(?:എന്ത്|എന്താണ്|എവിടെ|ആര്|ഏത്|എത്ര|എങ്ങനെ|എന്തുകൊണ്ട്|പറയൂ)|ോ\s*\??$/,
+  wakePhrases: ['ഹേ സൈറ്റ്സൗണ്ട്', 'hey sightsound'],
+  strings
+};
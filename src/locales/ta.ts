@@ -0,0 +1,265 @@
+// Tamil locale pack.
+
+import type { Hazard, HazardDistance, HazardSeverity, HazardType } from '../services/hazards';
+import type { Mode } from '../modes';
+import type { CurrencyNote, ObjectPosition } from '../services/analysisSchema';
+import type { NewObject } from '../services/noveltyFilter';
+import type { ColorName, ColorShade, DetectedColor, LightLevel } from '../services/colorAnalysis';
+import { groupNotes, hasCritical, percent } from './helpers';
+import type { CommandPhrases, LocalePack, UiStrings } from './types';
+
+const modeNames: Record<Mode, string> = { scene: 'காட்சி விவரம்', navigation: 'வழிகாட்டல்', read: 'வாசிப்பு', currency: 'பணம்', find: 'தேடல்' };
+
+const distanceNames: Record<HazardDistance, string> = { near: 'அருகில்', medium: 'சில அடிகள் தொலைவில்', far: 'தொலைவில்' };
+
+const hazardLocation = (h: Hazard) => `${h.clock} மணி திசையில், ${distanceNames[h.distance]}`;
+
+const hazardNames: Record<HazardType, string> = {
+  vehicle: 'வாகனம்',
+  traffic: 'போக்குவரத்து',
+  weapon: 'ஆயுதம்',
+  stairs: 'படிக்கட்டுகள்',
+  step: 'படி',
+  hole: 'குழி',
+  uneven_surface: 'சமமற்ற தரை',
+  wet_floor: 'ஈரமான தரை',
+  water: 'தண்ணீர்',
+  obstacle: 'தடை',
+  moving_object: 'நகரும் பொருள்',
+  person: 'நபர்',
+  crowd: 'கூட்டம்',
+  construction: 'கட்டுமானம்',
+  door: 'கதவு',
+  wall: 'சுவர்',
+  furniture: 'மரச்சாமான்',
+  glass: 'கண்ணாடி',
+  sharp_object: 'கூர்மையான பொருள்',
+  electric: 'மின்சாரம்',
+  hot_surface: 'சூடான பரப்பு',
+  other: 'ஆபத்து'
+};
+
+const hazardPhrase = (h: Hazard) => (h.detail ? `${hazardNames[h.type]}, ${h.detail}` : hazardNames[h.type]);
+
+const positionNames: Record<ObjectPosition, string> = { left: 'உங்கள் இடப்பக்கம்', center: 'நேராக முன்னால்', right: 'உங்கள் வலப்பக்கம்' };
+
+const colorNames: Record<ColorName, string> = {
+  black: 'கருப்பு', white: 'வெள்ளை', gray: 'சாம்பல்', red: 'சிவப்பு', orange: 'ஆரஞ்சு', yellow: 'மஞ்சள்',
+  green: 'பச்சை', teal: 'நீலப்பச்சை', blue: 'நீலம்', purple: 'ஊதா', pink: 'இளஞ்சிவப்பு', brown: 'பழுப்பு'
+};
+
+const shadeNames: Record<ColorShade, string> = { light: 'வெளிர்', dark: 'அடர்' };
+
+const colorPhrase = (color: DetectedColor) =>
+  color.shade ? `${shadeNames[color.shade]} ${colorNames[color.name]}` : colorNames[color.name];
+
+// What each command does, with an example phrase, for the spoken help.
+const commandHelp: Record<keyof CommandPhrases, string> = {
+  navigation: '"வழிகாட்டு" நடக்க வழிகாட்டலுக்கு',
+  scene: '"காட்சி விவரம்" சுற்றியிருப்பதைக் கேட்க',
+  hazards: '"ஆபத்துகள்" சமீபத்திய ஆபத்துகளை மீண்டும் கேட்க',
+  switchLanguage: '"மொழியை மாற்று" மொழியை மாற்ற',
+  read: '"இதைப் படி" எழுத்தைப் படித்துக் காட்ட',
+  currency: '"எந்த நோட்டு" நோட்டை அடையாளம் காண',
+  color: '"என்ன நிறம்" முன்னால் உள்ள நிறத்தை அறிய',
+  light: '"விளக்கு எரிகிறதா" வெளிச்சத்தைச் சரிபார்க்க',
+  find: '"என் சாவி தேடு" ஒரு பொருளைத் தேட',
+  continueReading: '"அடுத்தது" அடுத்த பகுதிக்கு',
+  repeat: '"மீண்டும்" கடைசியாகச் சொன்னதை மீண்டும் கேட்க',
+  stop: '"நிறுத்து" நிறுத்த',
+  pauseAnalysis: '"இடைநிறுத்து" தானாக விவரிப்பதை நிறுத்த',
+  resumeAnalysis: '"மீண்டும் தொடங்கு" மீண்டும் விவரிக்க',
+  describeNow: '"இப்போது விவரி" உடனே புதிய விவரத்துக்கு',
+  tellMeMore: '"மேலும் சொல்" கடைசிக் காட்சியின் விரிவான விவரத்துக்கு',
+  stopTalking: '"பேசுவதை நிறுத்து" பேச்சை நிறுத்த',
+  faster: '"வேகமாகப் பேசு" பேச்சு வேகத்தைக் கூட்ட',
+  slower: '"மெதுவாகப் பேசு" பேச்சு வேகத்தைக் குறைக்க',
+  help: '"உதவி" இந்தப் பட்டியலை மீண்டும் கேட்க'
+};
+
+const strings: UiStrings = {
+  switchedToMode: (mode: Mode) => `${modeNames[mode]} பயன்முறைக்கு மாறியது`,
+  sceneMode: 'காட்சி விவரம்',
+  navigationMode: 'வழிகாட்டல்',
+  analyzing: 'பகுப்பாய்வு செய்கிறது...',
+  listeningToCommand: 'கட்டளையைக் கேட்கிறது...',
+  autoAnalyzing: 'தானியங்கி பகுப்பாய்வு',
+  hazardsDetected: 'சாத்தியமான ஆபத்துகள் கண்டறியப்பட்டன',
+  noHazards: 'காட்சியில் உடனடி ஆபத்து எதுவும் தெரியவில்லை.',
+  detectedHazards: (hazards: Hazard[]) =>
+    `${hasCritical(hazards) ? 'ஆபத்து! ' : ''}நான் கண்டறிந்த ஆபத்துகள்: ${hazards
+      .map((h) => `${hazardPhrase(h)}, ${hazardLocation(h)}`)
+      .join('; ')}`,
+  hazardLocation,
+  hazardNames,
+  severityNames: { critical: 'தீவிரம்', warning: 'எச்சரிக்கை', info: 'தகவல்' } as Record<HazardSeverity, string>,
+  analyzingScene: 'காட்சியைப் பகுப்பாய்வு செய்கிறது...',
+  analyzingNavigation: 'வழியைப் பகுப்பாய்வு செய்கிறது...',
+  errorAnalyzing: 'படத்தைப் பகுப்பாய்வு செய்வதில் சிக்கல் உள்ளது. மீண்டும் முயற்சிக்கவும்.',
+  voiceSettingsUpdated: 'குரல் அமைப்புகள் புதுப்பிக்கப்பட்டன',
+  testMessage: 'இது தற்போதைய குரல் அமைப்புகளுடன் ஒரு சோதனைச் செய்தி',
+  analysisSettings: 'பகுப்பாய்வு அமைப்புகள்',
+  frameChangeSensitivity: 'காட்சி மாற்ற உணர்திறன்',
+  frameChangeSensitivityNames: { off: 'அணை (ஒவ்வொரு படத்தையும் பகுப்பாய்வு)', low: 'குறைவு', medium: 'நடுத்தரம்', high: 'அதிகம்' },
+  frameChangeSensitivityHint: 'அதிகம் மாறாத படங்களுக்கு மீண்டும் பகுப்பாய்வு செய்யாமல் முந்தைய முடிவே பயன்படுத்தப்படும்.',
+  capturePolicy: 'படம் எடுக்கும் இடைவெளி',
+  capturePolicyNames: { fixed: 'நிலையானது (ஒவ்வொரு 10 விநாடிக்கும்)', adaptive: 'பயன்முறைக்கு ஏற்ப', motion: 'அசைவுக்கு ஏற்ப' },
+  capturePolicyHints: {
+    fixed: 'ஒவ்வொரு 10 விநாடிக்கும் காட்சியைப் பகுப்பாய்வு செய்கிறது.',
+    adaptive: 'வழிகாட்டலில் ஒவ்வொரு 3 விநாடிக்கும், மற்ற நேரங்களில் ஒவ்வொரு 10 விநாடிக்கும். பேட்டரி குறைவாக இருந்தால் மெதுவாகும்.',
+    motion: 'நடக்கும்போது ஒவ்வொரு 2 முதல் 5 விநாடிக்கும், நிற்கும்போது ஒவ்வொரு 20 விநாடிக்கும். பேட்டரி குறைவாக இருந்தால் மெதுவாகும்.'
+  },
+  readMode: 'உரையைப் படி',
+  readModeHint: 'அச்சிட்ட உரையை நோக்கி கேமராவைக் காட்டி "இதைப் படி" என்று சொல்லுங்கள்.',
+  noTextFound: 'படிக்கக்கூடிய உரை எதுவும் கிடைக்கவில்லை. கேமராவை அருகில் நிலையாகப் பிடித்து மீண்டும் முயற்சிக்கவும்.',
+  readingIntro: (summary: string, parts: number) =>
+    `${summary || 'உரை கிடைத்தது'}${parts > 1 ? `, ${parts} பகுதிகளாக` : ''}.`,
+  readingContinuePrompt: 'அடுத்த பகுதிக்கு "தொடர்", மீண்டும் கேட்க "மீண்டும்", அல்லது "நிறுத்து" என்று சொல்லுங்கள்.',
+  readingPart: (current: number, total: number) => `பகுதி ${current} / ${total}`,
+  endOfText: 'உரை முடிந்தது.',
+  noReadingInProgress: 'இப்போது எதுவும் படிக்கப்படவில்லை. முதலில் "இதைப் படி" என்று சொல்லுங்கள்.',
+  readingStopped: 'படிப்பது நிறுத்தப்பட்டது.',
+  currencyMode: 'பணம்',
+  currencyModeHint: 'கேமராவின் முன் ஒரு ரூபாய் நோட்டைப் பிடியுங்கள்.',
+  currencyResult: (notes: CurrencyNote[], total: number) =>
+    notes.length === 1
+      ? `${notes[0].denomination} ரூபாய். ${percent(notes[0].confidence)} சதவீதம் உறுதி.`
+      : `${notes.length} நோட்டுகள்: ${groupNotes(notes)
+          .map((g) => `${g.denomination} ரூபாய் ${g.count}`)
+          .join(', ')}. மொத்தம் ${total} ரூபாய்.`,
+  currencyConfidence: (confidence: number) => `${percent(confidence)}% உறுதி`,
+  currencyTotal: (total: number) => `மொத்தம்: ₹${total}`,
+  repositionNote: 'இந்த நோட்டைப் பற்றி உறுதியாகத் தெரியவில்லை. அதைத் தட்டையாக, கேமராவுக்கு அருகில், நல்ல வெளிச்சத்தில் பிடியுங்கள்.',
+  noNoteFound: 'நோட்டு எதுவும் தெரியவில்லை. நோட்டைக் கேமராவின் முன் பிடியுங்கள்.',
+  askNoFrame: 'நான் இன்னும் எதையும் பார்க்கவில்லை. கேமராவைக் காட்டி மீண்டும் கேளுங்கள்.',
+  errorAnswering: 'மன்னிக்கவும், அதற்குப் பதில் சொல்ல முடியவில்லை. மீண்டும் கேளுங்கள்.',
+  youAsked: 'நீங்கள் கேட்டது',
+  findMode: 'பொருளைத் தேடு',
+  findModeHint: 'தேடலைத் தொடங்க "என் சாவியைத் தேடு" என்றும், முடிக்க "நிறுத்து" என்றும் சொல்லுங்கள்.',
+  searchingFor: (target: string) => `தேடுவது: ${target}`,
+  searchStarted: (target: string) => `${target} தேடுகிறேன். கேமராவை மெதுவாகச் சுற்றி நகர்த்துங்கள்.`,
+  objectFound: (target: string, position: ObjectPosition, distance: HazardDistance) =>
+    `${target} கிடைத்தது, ${positionNames[position]}, ${distanceNames[distance]}.`,
+  objectMoved: (position: ObjectPosition, distance: HazardDistance) =>
+    `இப்போது ${positionNames[position]}, ${distanceNames[distance]}.`,
+  objectLost: (target: string) => `${target} பார்வையில் இல்லை.`,
+  objectNotInView: 'இன்னும் தெரியவில்லை',
+  objectInView: (position: ObjectPosition, distance: HazardDistance) =>
+    `தெரிகிறது, ${positionNames[position]}, ${distanceNames[distance]}`,
+  searchStopped: (target: string) => `${target} தேடல் நிறுத்தப்பட்டது.`,
+  stopSearch: 'தேடலை நிறுத்து',
+  colorResult: (colors: DetectedColor[]) =>
+    colors.length === 0
+      ? 'நிறம் தெளிவாகத் தெரியவில்லை. பொருளைக் கேமராவுக்கு அருகில் கொண்டு வாருங்கள்.'
+      : colors.length > 1
+      ? `பெரும்பாலும் ${colorPhrase(colors[0])}, கொஞ்சம் ${colorPhrase(colors[1])}.`
+      : `இது ${colorPhrase(colors[0])} நிறம்.`,
+  lightResult: {
+    dark: 'இருட்டாக உள்ளது. விளக்கு அணைந்திருக்கலாம்.',
+    dim: 'வெளிச்சம் குறைவாக உள்ளது.',
+    normal: 'விளக்கு எரிகிறது. வெளிச்சம் சாதாரணமாக உள்ளது.',
+    bright: 'மிகவும் பிரகாசமாக உள்ளது, ஒருவேளை வலுவான விளக்கு அல்லது சூரிய ஒளி.'
+  } as Record<LightLevel, string>,
+  offlineModeOn: 'ஆஃப்லைன் பயன்முறை. மனிதர்கள், வாகனங்கள், மரச்சாமான்கள் போன்ற பொதுவான பொருட்களை மட்டுமே அடையாளம் காண முடியும்.',
+  offlineModeOff: 'மீண்டும் ஆன்லைனில்.',
+  offlineNothingDetected: 'ஆஃப்லைன் பயன்முறை: அருகில் எதுவும் அடையாளம் காணப்படவில்லை.',
+  offlineBadge: 'ஆஃப்லைன்',
+  needsConnection: 'இதற்கு இணைய இணைப்பு தேவை. காட்சி விவரமும் வழிகாட்டலும் ஆஃப்லைனிலும் வேலை செய்யும்.',
+  offlineDetectorUnavailable: 'ஆஃப்லைன் கண்டறியும் மாதிரியை ஏற்ற முடியவில்லை, அதனால் இணையம் இல்லாமல் என்னால் எதையும் விவரிக்க முடியாது.',
+  offlineUnavailableBadge: 'ஆஃப்லைன் பயன்முறை இல்லை',
+  voiceSettings: 'குரல் அமைப்புகள்',
+  voiceLabel: 'குரல்',
+  speechRate: (rate: number) => `பேச்சு வேகம் (${rate.toFixed(1)}x)`,
+  voicePitch: (pitch: number) => `குரல் சுருதி (${pitch.toFixed(1)})`,
+  rateScale: { slow: 'மெதுவு', normal: 'சாதாரணம்', fast: 'வேகம்' },
+  pitchScale: { low: 'தாழ்ந்த', normal: 'சாதாரணம்', high: 'உயர்ந்த' },
+  testVoice: 'குரலைச் சோதி',
+  browserNotSupported: 'உலாவி ஆதரிக்கப்படவில்லை',
+  browserNotSupportedMessage: 'மன்னிக்கவும், உங்கள் உலாவி பேச்சு அறிதலை ஆதரிக்கவில்லை.',
+  browserNotSupportedHint: 'Chrome, Edge அல்லது Safari பயன்படுத்திப் பாருங்கள்.',
+  microphoneRequired: 'மைக்ரோஃபோன் அனுமதி தேவை',
+  microphoneRequiredMessage: 'குரல் கட்டளைகளைப் பயன்படுத்த மைக்ரோஃபோன் அனுமதியை வழங்குங்கள்.',
+  microphoneRequiredHint: 'இதை உலாவி அமைப்புகளில் மாற்றலாம்.',
+  detectionOverlay: 'கண்டறிதல் பெட்டிகளைக் காட்டு',
+  detectionOverlayHint: 'குறைந்த பார்வை உள்ளவர்களுக்கும் உதவியாளர்களுக்கும் கேமரா காட்சியில் ஆபத்துகளையும் பொருட்களையும் தெளிவான நிறங்களில் காட்டுகிறது.',
+  overlayLabelSize: 'பெட்டி லேபிள் அளவு',
+  overlayLabelSizeNames: { small: 'சிறியது', medium: 'நடுத்தரம்', large: 'பெரியது' },
+  noveltySensitivity: 'மாற்றங்களை மட்டும் அறிவி',
+  noveltySensitivityNames: { off: 'அணை (ஒவ்வொரு முடிவையும் அறிவி)', low: 'குறைவு (பெரிய மாற்றங்கள் மட்டும்)', medium: 'நடுத்தரம்', high: 'அதிகம் (சிறிய மாற்றங்களும்)' },
+  noveltySensitivityHint: 'காட்சி மாறாவிட்டால் புதிய ஆபத்துகளும் பொருட்களும் மட்டுமே சொல்லப்படும்.',
+  unchangedCue: 'எதுவும் மாறாதபோது',
+  unchangedCueNames: { silent: 'அமைதியாக இரு', tick: 'மென்மையான டிக் ஒலி' },
+  newInView: (objects: NewObject[]) =>
+    `புதிதாகத் தெரிவது: ${objects
+      .map((o) => `${o.position ? `${positionNames[o.position]} ` : ''}${o.count > 1 ? `${o.count} ` : ''}${o.label}`)
+      .join(', ')}.`,
+  hapticSettings: 'அதிர்வு எச்சரிக்கைகள்',
+  hapticsEnabled: 'ஆபத்துகளுக்கு அதிர்வு',
+  hapticsHint: 'அதிர்வின் நீளம் தீவிரத்தைக் காட்டும்; பிறகு ஒரு தட்டு இடது, இரண்டு முன்னால், மூன்று வலது.',
+  hapticsUnsupported: 'இந்தச் சாதனம் அல்லது உலாவியால் அதிர முடியாது.',
+  hapticIntensity: 'அதிர்வு வலிமை',
+  hapticIntensityNames: { gentle: 'மென்மை', normal: 'சாதாரணம்', strong: 'வலுவானது' },
+  teachHaptics: 'அதிர்வு முறைகளைக் கற்றுக்கொடு',
+  hapticLessonSeverity: { critical: 'தீவிர ஆபத்து.', warning: 'எச்சரிக்கை.', info: 'தகவல்.' },
+  hapticLessonSide: (position: ObjectPosition) => `ஆபத்து ${positionNames[position]}.`,
+  hapticLessonDone: 'இவைதான் எல்லா முறைகளும்.',
+  earconSettings: 'ஆபத்து ஒலிகள்',
+  earconsEnabled: 'ஒவ்வொரு ஆபத்துக்கும் ஒலி எழுப்பு',
+  earconsHint: 'ஒவ்வொரு வகை ஆபத்துக்கும் தனிச் சிறிய ஒலி உண்டு, ஆபத்து இருக்கும் பக்கத்தில் கேட்கும். ஹெட்ஃபோனுடன் சிறந்தது.',
+  earconsUnsupported: 'இந்த உலாவியால் ஆபத்து ஒலிகளை இயக்க முடியாது.',
+  earconVolume: (volume: number) => `ஒலியளவு: ${Math.round(volume * 100)}%`,
+  earconsOnly: 'ஒலிகள் மட்டும், பேச்சு விவரணை வேண்டாம்',
+  earconsOnlyHint: 'தானியங்கி விவரணைகள் பேசப்படாது; உங்கள் கட்டளைகளுக்கான பதில்கள் பேசப்படும்.',
+  previewEarcons: 'ஒலிகளை இயக்கு',
+  helpMessage: (mode: Mode, commands: (keyof CommandPhrases)[]) =>
+    `${modeNames[mode]} பயன்முறையில் நீங்கள் சொல்லலாம்: ${commands.map((id) => commandHelp[id]).join('; ')}.`,
+  autoAnalysisPaused: 'தானியங்கி பகுப்பாய்வு இடைநிறுத்தப்பட்டது',
+  analysisPaused: 'தானாக விவரிப்பது இடைநிறுத்தப்பட்டது. மீண்டும் தொடங்க "மீண்டும் தொடங்கு" என்று சொல்லுங்கள்.',
+  analysisResumed: 'தானாக விவரிப்பது மீண்டும் தொடங்கியது.',
+  nothingToRepeat: 'நான் இதுவரை எதுவும் சொல்லவில்லை.',
+  speechRateChanged: (rate: number) => `இப்போது ${rate.toFixed(1)} மடங்கு வேகத்தில் பேசுகிறேன்.`,
+  listeningSettings: 'கேட்டல்',
+  listeningMode: 'கட்டளைகளை எப்போது கேட்பது',
+  listeningModeNames: { always: 'எப்போதும்', wakePhrase: 'எழுப்பும் சொற்றொடருக்குப் பின் மட்டும்' },
+  wakePhrase: 'எழுப்பும் சொற்றொடர் (இயல்புநிலைக்குக் காலியாக விடவும்)',
+  wakePhraseHint: (phrase: string, seconds: number) =>
+    `"${phrase}" என்று சொல்லி, மணியோசைக்குப் பின் ${seconds} வினாடிகளுக்குள் கட்டளை கொடுங்கள் அல்லது கேள்வி கேளுங்கள். இறங்கும் மணியோசை கேட்பது நின்றதைக் குறிக்கும்.`,
+  waitingForWakePhrase: (phrase: string) => `கட்டளை கொடுக்க "${phrase}" என்று சொல்லுங்கள்`
+};
+
+export const ta: LocalePack = {
+  nativeName: 'தமிழ்',
+  speechLang: 'ta-IN',
+  voiceTags: ['ta-IN', 'ta'],
+  modelLanguage: 'natural Tamil with proper Tamil grammar and phrasing, ONLY in Tamil script',
+  commands: {
+    navigation: ['வழிகாட்டு', 'வழிகாட்டல் பயன்முறை'],
+    scene: ['காட்சி விவரம்', 'என்ன தெரிகிறது'],
+    hazards: ['ஆபத்துகள்', 'ஏதாவது ஆபத்து'],
+    switchLanguage: ['மொழியை மாற்று'],
+    read: ['படி', 'இதைப் படி'],
+    currency: ['எந்த நோட்டு', 'பணத்தைப் பார்'],
+    color: ['என்ன நிறம்', 'இது என்ன நிறம்'],
+    light: ['விளக்கு எரிகிறதா', 'வெளிச்சம் எவ்வளவு'],
+    find: [/^(?:என் )?(.+?) (?:தேடு|கண்டுபிடி)$/],
+    continueReading: ['தொடர்', 'அடுத்தது'],
+    repeat: ['மீண்டும்', 'திரும்பச் சொல்'],
+    stop: ['நிறுத்து', 'படிப்பதை நிறுத்து'],
+    pauseAnalysis: ['பகுப்பாய்வை நிறுத்து', 'இடைநிறுத்து'],
+    resumeAnalysis: ['பகுப்பாய்வைத் தொடங்கு', 'மீண்டும் தொடங்கு'],
+    describeNow: ['இப்போது விவரி', 'இப்போது பார்'],
+    tellMeMore: ['மேலும் சொல்', 'விரிவாகச் சொல்'],
+    stopTalking: ['பேசுவதை நிறுத்து', 'அமைதி'],
+    faster: ['வேகமாகப் பேசு', 'வேகம் கூட்டு'],
+    slower: ['மெதுவாகப் பேசு', 'வேகம் குறை'],
+    help: ['உதவி', 'என்ன சொல்லலாம்']
+  },
+  questionPrefixes: ['கேள்வி'],
+  // Question words can appear anywhere. Yes/no questions end in the -ஆ clitic, but so do
+  // plenty of other words ("அம்மா", "அக்கா"), so only verb forms that take it are matched:
+  // "திறந்திருக்கா", "இருக்கிறதா", "உள்ளதா", "இல்லையா", "முடியுமா".
+  questionPattern:
+    /(?:என்ன|எங்கே|யார்|எது|எந்த|எத்தனை|எவ்வளவு|எப்படி|ஏன்|சொல்லு)|(?:இருக்கா|ிருக்கா|றதா|ளதா|லையா|ுமா)\s*\??$/,
+  wakePhrases: ['ஹே சைட்சவுண்ட்', 'hey sightsound'],
+  strings
+};
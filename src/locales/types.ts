@@ -0,0 +1,51 @@
+import type { enStrings } from './en';
+
+// Every UI and spoken string. English is the reference: a pack missing a key, or adding
+// one English does not have, fails to type-check.
+export type UiStrings = typeof enStrings;
+
+// Phrases that trigger each voice command. Packs only list their own language; the app
+// listens for the phrases of every pack at once.
+export interface CommandPhrases {
+  navigation: string[];
+  scene: string[];
+  hazards: string[];
+  switchLanguage: string[];
+  read: string[];
+  currency: string[];
+  color: (string | RegExp)[];
+  light: (string | RegExp)[];
+  // Each pattern captures the name of the object to look for in its first group.
+  find: RegExp[];
+  continueReading: string[];
+  repeat: string[];
+  stop: string[];
+  pauseAnalysis: string[];
+  resumeAnalysis: string[];
+  describeNow: string[];
+  tellMeMore: string[];
+  stopTalking: string[];
+  faster: string[];
+  slower: string[];
+  help: string[];
+}
+
+export interface LocalePack {
+  // Name of the language in that language, for pickers.
+  nativeName: string;
+  // BCP-47 tag the speech recogniser listens for.
+  speechLang: string;
+  // BCP-47 tags of acceptable speech synthesis voices, most preferred first.
+  voiceTags: string[];
+  // How the vision model is told to write its free-text fields.
+  modelLanguage: string;
+  commands: CommandPhrases;
+  // Words the user may say before a question ("ask ...").
+  questionPrefixes: string[];
+  // Matches utterances that are questions in this language.
+  questionPattern: RegExp;
+  // Default phrases that open the command window in wake-phrase mode.
+  // Recognizers may write the app's name in Latin script, so packs list that too.
+  wakePhrases: string[];
+  strings: UiStrings;
+}
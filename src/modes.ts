@@ -0,0 +1 @@
+export type Mode = 'scene' | 'navigation' | 'read' | 'currency' | 'find';
@@ -0,0 +1,43 @@
+// Helpers for cancelling analyses whose result is no longer wanted
+// (e.g. the user switched mode or language while a request was in flight).
+
+export function createAbortError(): Error {
+  const error = new Error('Analysis aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw createAbortError();
+}
+
+// Rejects as soon as the signal aborts, for work that cannot be cancelled itself
+// (the underlying request keeps running, but its result is ignored).
+export function raceWithAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  throwIfAborted(signal);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+// setTimeout as a promise that rejects early if the signal aborts.
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return raceWithAbort(new Promise<void>((resolve) => setTimeout(resolve, ms)), signal);
+}
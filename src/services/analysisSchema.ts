@@ -0,0 +1,348 @@
+// Parsing and validation for the single structured-JSON reply the vision model returns.
+// Models do not always follow instructions, so parsing is tolerant and every parser
+// falls back to something speakable instead of throwing.
+
+import { isHazardType, sortHazards, type Hazard, type HazardDistance, type HazardSeverity } from './hazards';
+
+// Where an object sits in the frame, as fractions (0..1) of the image's width and height
+// measured from the top-left corner.
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SceneObject {
+  // Short lowercase English noun; stable across languages, so analytics can report it.
+  name: string;
+  // The same noun in the user's language.
+  label: string;
+  count: number;
+  // One box per instance the model could place; may hold fewer than count.
+  boxes: BoundingBox[];
+}
+
+export interface SceneAnalysis {
+  hazards: Hazard[];
+  description: string;
+  objects: SceneObject[];
+}
+
+export interface NavigationAnalysis {
+  hazards: Hazard[];
+  navigation: string;
+  objects: SceneObject[];
+}
+
+export interface TextReading {
+  // All readable text in natural reading order, transcribed as written.
+  text: string;
+  // Short description of what is being read (e.g. "a medicine label"), in the user's language.
+  summary: string;
+}
+
+export interface QuestionAnswer {
+  // Spoken reply to the user's question, in the user's language.
+  answer: string;
+}
+
+export interface DetailedDescription {
+  // Several sentences about the whole frame, in the user's language.
+  description: string;
+}
+
+// Where a searched-for object sits in the camera frame.
+export type ObjectPosition = 'left' | 'center' | 'right';
+
+export interface ObjectLocation {
+  found: boolean;
+  position: ObjectPosition;
+  distance: HazardDistance;
+}
+
+// Indian rupee banknotes currently in circulation.
+export const RUPEE_DENOMINATIONS = [10, 20, 50, 100, 200, 500] as const;
+
+export type RupeeDenomination = (typeof RUPEE_DENOMINATIONS)[number];
+
+export interface CurrencyNote {
+  denomination: RupeeDenomination;
+  // 0..1, how sure the model is about this note.
+  confidence: number;
+}
+
+export interface CurrencyReading {
+  notes: CurrencyNote[];
+  // Confidence of the least certain note; 0 when no note was recognised.
+  confidence: number;
+  total: number;
+}
+
+export type JsonObject = Record<string, unknown>;
+
+export function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Pulls the first JSON object out of a reply that may be wrapped in markdown fences or prose.
+export function extractJsonObject(text: string): JsonObject | null {
+  const unfenced = text.replace(/```(?:json)?/gi, '').trim();
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
+  try {
+    const parsed: unknown = JSON.parse(unfenced.slice(start, end + 1));
+    return isObject(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+const SEVERITIES: readonly HazardSeverity[] = ['critical', 'warning', 'info'];
+const DISTANCES: readonly HazardDistance[] = ['near', 'medium', 'far'];
+const POSITIONS: readonly ObjectPosition[] = ['left', 'center', 'right'];
+
+// Accepts 2, "2", "2 o'clock" or "2:00"; anything unreadable is treated as straight ahead.
+function toClock(value: unknown): number {
+  const hour = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+  if (!Number.isFinite(hour)) return 12;
+  const rounded = Math.round(hour) % 12;
+  return rounded === 0 ? 12 : rounded;
+}
+
+function toHazard(value: unknown): Hazard | null {
+  // Older prompts and some models return plain strings.
+  if (typeof value === 'string') {
+    const detail = value.trim();
+    if (!detail || detail.toUpperCase() === 'NONE') return null;
+    return { type: 'other', detail, severity: 'warning', clock: 12, distance: 'medium' };
+  }
+  if (!isObject(value)) return null;
+
+  // Older prompts asked for an English "label" instead of a localized "detail".
+  const detail = typeof value.detail === 'string' ? value.detail.trim() : typeof value.label === 'string' ? value.label.trim() : '';
+  const type = isHazardType(value.type) ? value.type : 'other';
+  if (!detail && type === 'other') return null;
+
+  const box = toBox(value.box);
+  return {
+    type,
+    detail,
+    severity: SEVERITIES.includes(value.severity as HazardSeverity) ? (value.severity as HazardSeverity) : 'warning',
+    clock: toClock(value.clock),
+    distance: DISTANCES.includes(value.distance as HazardDistance) ? (value.distance as HazardDistance) : 'medium',
+    ...(box && { box }),
+  };
+}
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+// Accepts [x, y, width, height] or {x, y, width, height}. Some models answer on a 0..1000
+// grid despite the prompt, so any coordinate above 1 rescales the whole box.
+function toBox(value: unknown): BoundingBox | null {
+  const raw = Array.isArray(value) ? value.slice(0, 4) : isObject(value) ? [value.x, value.y, value.width, value.height] : [];
+  const numbers = raw.map((n) => (typeof n === 'number' ? n : parseFloat(String(n))));
+  if (numbers.length !== 4 || !numbers.every(Number.isFinite)) return null;
+
+  const scale = numbers.some((n) => n > 1) ? 1000 : 1;
+  const [x, y, width, height] = numbers.map((n) => clamp01(n / scale));
+  const box = { x, y, width: Math.min(width, 1 - x), height: Math.min(height, 1 - y) };
+  return box.width > 0 && box.height > 0 ? box : null;
+}
+
+function toSceneObject(value: unknown): SceneObject | null {
+  // Older prompts asked for a plain list of English nouns.
+  if (typeof value === 'string') {
+    const name = value.trim().toLowerCase();
+    return name ? { name, label: name, count: 1, boxes: [] } : null;
+  }
+  if (!isObject(value)) return null;
+
+  const label = typeof value.label === 'string' ? value.label.trim() : '';
+  const name = typeof value.name === 'string' ? value.name.trim().toLowerCase() : label.toLowerCase();
+  if (!name) return null;
+
+  const boxes = Array.isArray(value.boxes) ? value.boxes.map(toBox).filter((b): b is BoundingBox => b !== null) : [];
+  const count = typeof value.count === 'number' ? value.count : parseInt(String(value.count ?? ''), 10);
+  return {
+    name,
+    label: label || name,
+    count: Math.max(Number.isFinite(count) ? Math.round(count) : 1, boxes.length, 1),
+    boxes,
+  };
+}
+
+// One entry per name: repeated names are merged, adding up their counts and boxes.
+function toObjectList(value: unknown): SceneObject[] {
+  const items = typeof value === 'string' ? value.split(',') : Array.isArray(value) ? value : [];
+  const byName = new Map<string, SceneObject>();
+  for (const object of items.map(toSceneObject)) {
+    if (!object) continue;
+    const existing = byName.get(object.name);
+    byName.set(
+      object.name,
+      existing
+        ? { ...existing, count: existing.count + object.count, boxes: [...existing.boxes, ...object.boxes] }
+        : object
+    );
+  }
+  return [...byName.values()];
+}
+
+function toHazardList(value: unknown): Hazard[] {
+  const items = typeof value === 'string' ? value.split(',') : Array.isArray(value) ? value : [];
+  return sortHazards(items.map(toHazard).filter((h): h is Hazard => h !== null));
+}
+
+function toConfidence(value: unknown): number {
+  const n = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  if (!Number.isFinite(n)) return 0;
+  // Some models answer in percent.
+  const normalized = n > 1 ? n / 100 : n;
+  return Math.min(1, Math.max(0, normalized));
+}
+
+function toCurrencyNote(value: unknown): CurrencyNote | null {
+  if (!isObject(value)) return null;
+  const denomination = Number(value.denomination);
+  if (!(RUPEE_DENOMINATIONS as readonly number[]).includes(denomination)) return null;
+  return { denomination: denomination as RupeeDenomination, confidence: toConfidence(value.confidence) };
+}
+
+export function firstSentence(text: string): string {
+  return text.split(/[.!?।]/, 1)[0].trim();
+}
+
+// Text to speak when the reply was not JSON at all: treat the whole reply as prose.
+function fallbackText(text: string): string {
+  return firstSentence(text.replace(/```(?:json)?/gi, '').replace(/[{}[\]"]/g, ' ').replace(/\s+/g, ' '));
+}
+
+export function parseSceneAnalysis(text: string): SceneAnalysis {
+  const json = extractJsonObject(text);
+  if (!json) {
+    console.warn('Vision model returned malformed scene JSON, falling back to plain text');
+    return { hazards: [], description: fallbackText(text), objects: [] };
+  }
+
+  return normalizeSceneAnalysis(json);
+}
+
+// The normalize* functions validate an already-parsed object, such as a proxy response.
+export function normalizeSceneAnalysis(json: JsonObject): SceneAnalysis {
+  return {
+    hazards: toHazardList(json.hazards),
+    description: typeof json.description === 'string' ? firstSentence(json.description) : '',
+    objects: toObjectList(json.objects),
+  };
+}
+
+export function parseNavigationAnalysis(text: string): NavigationAnalysis {
+  const json = extractJsonObject(text);
+  if (!json) {
+    console.warn('Vision model returned malformed navigation JSON, falling back to plain text');
+    return { hazards: [], navigation: fallbackText(text), objects: [] };
+  }
+
+  return normalizeNavigationAnalysis(json);
+}
+
+export function normalizeNavigationAnalysis(json: JsonObject): NavigationAnalysis {
+  return {
+    hazards: toHazardList(json.hazards),
+    navigation: typeof json.navigation === 'string' ? firstSentence(json.navigation) : '',
+    objects: toObjectList(json.objects),
+  };
+}
+
+export function parseTextReading(text: string): TextReading {
+  const json = extractJsonObject(text);
+  if (!json) {
+    console.warn('Vision model returned malformed text-reading JSON, falling back to plain text');
+    return { text: text.replace(/```(?:json)?/gi, '').trim(), summary: '' };
+  }
+
+  return normalizeTextReading(json);
+}
+
+export function normalizeTextReading(json: JsonObject): TextReading {
+  return {
+    text: typeof json.text === 'string' ? json.text.trim() : '',
+    summary: typeof json.summary === 'string' ? firstSentence(json.summary) : '',
+  };
+}
+
+export function parseQuestionAnswer(text: string): QuestionAnswer {
+  const json = extractJsonObject(text);
+  if (!json) {
+    console.warn('Vision model returned malformed answer JSON, falling back to plain text');
+    // Unlike descriptions, an answer may need more than one sentence, so keep all of it.
+    return { answer: text.replace(/```(?:json)?/gi, '').replace(/\s+/g, ' ').trim() };
+  }
+
+  return normalizeQuestionAnswer(json);
+}
+
+export function normalizeQuestionAnswer(json: JsonObject): QuestionAnswer {
+  return { answer: typeof json.answer === 'string' ? json.answer.trim() : '' };
+}
+
+export function parseDetailedDescription(text: string): DetailedDescription {
+  const json = extractJsonObject(text);
+  if (!json) {
+    console.warn('Vision model returned malformed detailed-description JSON, falling back to plain text');
+    // The point of asking for more is the length, so keep every sentence.
+    return { description: text.replace(/```(?:json)?/gi, '').replace(/\s+/g, ' ').trim() };
+  }
+
+  return normalizeDetailedDescription(json);
+}
+
+export function normalizeDetailedDescription(json: JsonObject): DetailedDescription {
+  return { description: typeof json.description === 'string' ? json.description.trim() : '' };
+}
+
+export function parseObjectLocation(text: string): ObjectLocation {
+  const json = extractJsonObject(text);
+  if (!json) {
+    // A missed frame is harmless during a search; the next capture will try again.
+    console.warn('Vision model returned malformed object-location JSON');
+    return { found: false, position: 'center', distance: 'medium' };
+  }
+
+  return normalizeObjectLocation(json);
+}
+
+export function normalizeObjectLocation(json: JsonObject): ObjectLocation {
+  const position = String(json.position ?? '').toLowerCase().replace('centre', 'center');
+  return {
+    found: json.found === true || json.found === 'true',
+    position: POSITIONS.includes(position as ObjectPosition) ? (position as ObjectPosition) : 'center',
+    distance: DISTANCES.includes(json.distance as HazardDistance) ? (json.distance as HazardDistance) : 'medium',
+  };
+}
+
+export function parseCurrencyReading(text: string): CurrencyReading {
+  const json = extractJsonObject(text);
+  if (!json) {
+    console.warn('Vision model returned malformed currency JSON');
+    return { notes: [], confidence: 0, total: 0 };
+  }
+
+  return normalizeCurrencyReading(json);
+}
+
+export function normalizeCurrencyReading(json: JsonObject): CurrencyReading {
+  const notes = (Array.isArray(json.notes) ? json.notes : [])
+    .map(toCurrencyNote)
+    .filter((n): n is CurrencyNote => n !== null);
+
+  return {
+    notes,
+    confidence: notes.length > 0 ? Math.min(...notes.map((n) => n.confidence)) : 0,
+    // Summed locally rather than trusting the model's arithmetic.
+    total: notes.reduce((sum, n) => sum + n.denomination, 0),
+  };
+}
@@ -0,0 +1,62 @@
+// Short non-speech sounds played through Web Audio alongside the speech queue.
+
+type WindowWithWebkitAudio = Window & { webkitAudioContext?: typeof AudioContext };
+
+let context: AudioContext | null = null;
+
+const audioContextClass = () => window.AudioContext ?? (window as WindowWithWebkitAudio).webkitAudioContext;
+
+export function isAudioSupported(): boolean {
+  return audioContextClass() !== undefined;
+}
+
+// One context for the whole app; browsers limit how many can be open at once.
+export function getAudioContext(): AudioContext | null {
+  if (!context) {
+    const Context = audioContextClass();
+    if (!Context) return null;
+    context = new Context();
+  }
+  // Starts suspended until the page has seen a user gesture; resuming is harmless if it already runs.
+  if (context.state === 'suspended') void context.resume().catch(() => undefined);
+  return context;
+}
+
+// A quiet, very short click that says "still watching, nothing new" without words.
+export function playTick() {
+  const ctx = getAudioContext();
+  if (!ctx) return;
+
+  const start = ctx.currentTime;
+  const oscillator = ctx.createOscillator();
+  const gain = ctx.createGain();
+  oscillator.type = 'sine';
+  oscillator.frequency.value = 1200;
+  gain.gain.setValueAtTime(0.0001, start);
+  gain.gain.exponentialRampToValueAtTime(0.15, start + 0.005);
+  gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.06);
+  oscillator.connect(gain).connect(ctx.destination);
+  oscillator.start(start);
+  oscillator.stop(start + 0.07);
+}
+
+// Two quick notes marking the wake-phrase command window: rising when it opens, falling when it closes.
+export function playChime(direction: 'open' | 'close') {
+  const ctx = getAudioContext();
+  if (!ctx) return;
+
+  const notes = direction === 'open' ? [660, 990] : [990, 660];
+  notes.forEach((frequency, i) => {
+    const start = ctx.currentTime + i * 0.1;
+    const oscillator = ctx.createOscillator();
+    const gain = ctx.createGain();
+    oscillator.type = 'sine';
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.0001, start);
+    gain.gain.exponentialRampToValueAtTime(0.25, start + 0.01);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.12);
+    oscillator.connect(gain).connect(ctx.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.13);
+  });
+}
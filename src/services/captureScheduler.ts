@@ -0,0 +1,194 @@
+// Decides when the next automatic capture happens. Replaces the fixed 10-second countdown
+// with selectable policies that react to the current mode, device motion and battery level.
+
+export type CapturePolicy = 'fixed' | 'adaptive' | 'motion';
+
+export const CAPTURE_POLICIES: CapturePolicy[] = ['fixed', 'adaptive', 'motion'];
+
+const STORAGE_KEY = 'capturePolicy';
+const DEFAULT_POLICY: CapturePolicy = 'adaptive';
+
+// Seconds between captures.
+const FIXED_INTERVAL = 10;
+const SCENE_INTERVAL = 10;
+const NAVIGATION_INTERVAL = 3;
+const WALKING_SCENE_INTERVAL = 5;
+const WALKING_NAVIGATION_INTERVAL = 2;
+const STATIONARY_INTERVAL = 20;
+// Searching for an object needs quick feedback while the user sweeps the camera.
+const SEARCH_INTERVAL = 2;
+// Interval multiplier while the battery is low and not charging.
+const LOW_BATTERY_FACTOR = 2;
+const LOW_BATTERY_LEVEL = 0.2;
+// Never fire a motion-triggered capture closer than this to the previous one.
+const MIN_MOTION_TRIGGER_GAP_MS = 2000;
+
+// Accelerometer variance (m/s²)² above which the user is considered to be moving,
+// measured over a short sliding window of DeviceMotionEvent samples.
+const MOTION_VARIANCE_THRESHOLD = 1.5;
+const MOTION_WINDOW_SIZE = 30;
+
+export interface CaptureConditions {
+  mode: string;
+  isMoving: boolean;
+  isBatteryLow: boolean;
+}
+
+export interface CaptureSchedulerOptions {
+  policy: CapturePolicy;
+  getMode: () => string;
+  // While blocked (paused, already analyzing) the countdown restarts.
+  isBlocked: () => boolean;
+  onCapture: () => void;
+}
+
+export interface CaptureScheduler {
+  start(): void;
+  stop(): void;
+}
+
+interface BatteryManager extends EventTarget {
+  charging: boolean;
+  level: number;
+}
+
+type NavigatorWithBattery = Navigator & { getBattery?: () => Promise<BatteryManager> };
+
+type DeviceMotionEventWithPermission = typeof DeviceMotionEvent & {
+  requestPermission?: () => Promise<'granted' | 'denied'>;
+};
+
+export function getCapturePolicy(): CapturePolicy {
+  const saved = localStorage.getItem(STORAGE_KEY) as CapturePolicy | null;
+  return saved && CAPTURE_POLICIES.includes(saved) ? saved : DEFAULT_POLICY;
+}
+
+export function setCapturePolicy(policy: CapturePolicy) {
+  localStorage.setItem(STORAGE_KEY, policy);
+}
+
+// iOS only delivers motion events after an explicit permission prompt, which must
+// be triggered from a user gesture (e.g. picking the motion policy in settings).
+export async function requestMotionPermission(): Promise<boolean> {
+  if (typeof DeviceMotionEvent === 'undefined') return false;
+  const withPermission = DeviceMotionEvent as DeviceMotionEventWithPermission;
+  if (typeof withPermission.requestPermission !== 'function') return true;
+  try {
+    return (await withPermission.requestPermission()) === 'granted';
+  } catch {
+    return false;
+  }
+}
+
+export function captureIntervalFor(policy: CapturePolicy, conditions: CaptureConditions): number {
+  // An object search was explicitly requested, so it overrides the chosen policy.
+  if (conditions.mode === 'find') {
+    return conditions.isBatteryLow ? SEARCH_INTERVAL * LOW_BATTERY_FACTOR : SEARCH_INTERVAL;
+  }
+  if (policy === 'fixed') return FIXED_INTERVAL;
+
+  const isNavigation = conditions.mode === 'navigation';
+  let interval = isNavigation ? NAVIGATION_INTERVAL : SCENE_INTERVAL;
+
+  if (policy === 'motion') {
+    interval = conditions.isMoving
+      ? isNavigation
+        ? WALKING_NAVIGATION_INTERVAL
+        : WALKING_SCENE_INTERVAL
+      : STATIONARY_INTERVAL;
+  }
+
+  return conditions.isBatteryLow ? interval * LOW_BATTERY_FACTOR : interval;
+}
+
+export function createCaptureScheduler({ policy, getMode, isBlocked, onCapture }: CaptureSchedulerOptions): CaptureScheduler {
+  let timer: number | null = null;
+  let secondsSinceCapture = 0;
+  let lastCaptureAt = 0;
+  let isMoving = false;
+  let isBatteryLow = false;
+  const motionSamples: number[] = [];
+  let battery: BatteryManager | null = null;
+
+  const capture = () => {
+    secondsSinceCapture = 0;
+    lastCaptureAt = Date.now();
+    onCapture();
+  };
+
+  const handleMotion = (event: DeviceMotionEvent) => {
+    const a = event.accelerationIncludingGravity ?? event.acceleration;
+    if (!a || a.x === null || a.y === null || a.z === null) return;
+
+    motionSamples.push(Math.sqrt(a.x * a.x + a.y * a.y + a.z * a.z));
+    if (motionSamples.length > MOTION_WINDOW_SIZE) motionSamples.shift();
+    if (motionSamples.length < MOTION_WINDOW_SIZE) return;
+
+    const mean = motionSamples.reduce((sum, v) => sum + v, 0) / motionSamples.length;
+    const variance = motionSamples.reduce((sum, v) => sum + (v - mean) ** 2, 0) / motionSamples.length;
+    const wasMoving = isMoving;
+    isMoving = variance > MOTION_VARIANCE_THRESHOLD;
+
+    // Starting to walk means the surroundings are about to change: look right away.
+    if (isMoving && !wasMoving && !isBlocked() && Date.now() - lastCaptureAt > MIN_MOTION_TRIGGER_GAP_MS) {
+      capture();
+    }
+  };
+
+  const updateBattery = () => {
+    if (!battery) return;
+    isBatteryLow = !battery.charging && battery.level <= LOW_BATTERY_LEVEL;
+  };
+
+  const tick = () => {
+    if (isBlocked()) {
+      secondsSinceCapture = 0;
+      return;
+    }
+
+    secondsSinceCapture++;
+    const interval = captureIntervalFor(policy, { mode: getMode(), isMoving, isBatteryLow });
+    if (secondsSinceCapture >= interval) {
+      capture();
+    }
+  };
+
+  return {
+    start() {
+      if (timer !== null) return;
+      timer = window.setInterval(tick, 1000);
+
+      if (policy === 'motion' && typeof window.DeviceMotionEvent !== 'undefined') {
+        window.addEventListener('devicemotion', handleMotion);
+      }
+
+      const nav = navigator as NavigatorWithBattery;
+      if (policy !== 'fixed' && nav.getBattery) {
+        nav
+          .getBattery()
+          .then((manager) => {
+            if (timer === null) return;
+            battery = manager;
+            updateBattery();
+            battery.addEventListener('levelchange', updateBattery);
+            battery.addEventListener('chargingchange', updateBattery);
+          })
+          .catch(() => {
+            // Battery Status API unavailable or blocked; keep normal intervals.
+          });
+      }
+    },
+    stop() {
+      if (timer !== null) {
+        clearInterval(timer);
+        timer = null;
+      }
+      window.removeEventListener('devicemotion', handleMotion);
+      if (battery) {
+        battery.removeEventListener('levelchange', updateBattery);
+        battery.removeEventListener('chargingchange', updateBattery);
+        battery = null;
+      }
+    },
+  };
+}
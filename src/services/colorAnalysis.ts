@@ -0,0 +1,159 @@
+// On-device colour and light-level readings from a camera frame. No network involved,
+// so these answers keep working offline or when the vision backend is out of quota.
+
+import { loadImage } from './frameDiff';
+
+export const COLOR_NAMES = [
+  'black',
+  'white',
+  'gray',
+  'red',
+  'orange',
+  'yellow',
+  'green',
+  'teal',
+  'blue',
+  'purple',
+  'pink',
+  'brown',
+] as const;
+
+export type ColorName = (typeof COLOR_NAMES)[number];
+
+export type ColorShade = 'light' | 'dark';
+
+export type LightLevel = 'dark' | 'dim' | 'normal' | 'bright';
+
+export interface DetectedColor {
+  name: ColorName;
+  // Only set for chromatic colours and grey; "light black" is not a thing.
+  shade: ColorShade | null;
+  // Fraction (0..1) of the sampled region this colour covers.
+  share: number;
+}
+
+export interface ColorReading {
+  // Most common colour first; a second colour is included only if it covers a fair part of the region.
+  colors: DetectedColor[];
+  lightLevel: LightLevel;
+  // Mean luma of the whole frame, 0..1.
+  brightness: number;
+}
+
+// Fraction of the frame's width and height sampled for colour: the part the user is pointing at.
+const CENTER_REGION = 0.3;
+const COLOR_SAMPLE_SIZE = 24;
+const LIGHT_SAMPLE_WIDTH = 32;
+const LIGHT_SAMPLE_HEIGHT = 24;
+const SECONDARY_COLOR_MIN_SHARE = 0.25;
+
+// Mean luma thresholds. The camera's auto-exposure brightens dark rooms, so these are
+// lower than what the eye would call dark.
+const DARK_LEVEL = 0.12;
+const DIM_LEVEL = 0.3;
+const BRIGHT_LEVEL = 0.75;
+
+function toHsl(r: number, g: number, b: number): { h: number; s: number; l: number } {
+  const max = Math.max(r, g, b) / 255;
+  const min = Math.min(r, g, b) / 255;
+  const l = (max + min) / 2;
+  const delta = max - min;
+  if (delta === 0) return { h: 0, s: 0, l };
+
+  const s = delta / (1 - Math.abs(2 * l - 1));
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  let h: number;
+  if (max === rn) h = ((gn - bn) / delta) % 6;
+  else if (max === gn) h = (bn - rn) / delta + 2;
+  else h = (rn - gn) / delta + 4;
+  return { h: (h * 60 + 360) % 360, s, l };
+}
+
+function classifyPixel(h: number, s: number, l: number): ColorName {
+  if (l < 0.12) return 'black';
+  if (l > 0.92) return 'white';
+  if (s < 0.15) return l < 0.25 ? 'black' : l > 0.8 ? 'white' : 'gray';
+
+  if (h < 15 || h >= 345) return l > 0.7 ? 'pink' : l < 0.3 ? 'brown' : 'red';
+  if (h < 40) return l < 0.45 ? 'brown' : 'orange';
+  if (h < 65) return l < 0.3 ? 'brown' : 'yellow';
+  if (h < 165) return 'green';
+  if (h < 195) return 'teal';
+  if (h < 255) return 'blue';
+  if (h < 290) return 'purple';
+  return 'pink';
+}
+
+function shadeOf(name: ColorName, meanLightness: number): ColorShade | null {
+  if (name === 'black' || name === 'white') return null;
+  if (meanLightness < 0.3) return 'dark';
+  if (meanLightness > 0.7) return 'light';
+  return null;
+}
+
+function toLightLevel(brightness: number): LightLevel {
+  if (brightness < DARK_LEVEL) return 'dark';
+  if (brightness < DIM_LEVEL) return 'dim';
+  if (brightness > BRIGHT_LEVEL) return 'bright';
+  return 'normal';
+}
+
+function sampleImage(
+  img: HTMLImageElement,
+  region: { x: number; y: number; width: number; height: number },
+  width: number,
+  height: number
+): Uint8ClampedArray {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  ctx.drawImage(img, region.x, region.y, region.width, region.height, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+}
+
+export async function analyzeColors(dataUrl: string): Promise<ColorReading> {
+  const img = await loadImage(dataUrl);
+  const { naturalWidth: width, naturalHeight: height } = img;
+
+  const regionWidth = width * CENTER_REGION;
+  const regionHeight = height * CENTER_REGION;
+  const center = sampleImage(
+    img,
+    { x: (width - regionWidth) / 2, y: (height - regionHeight) / 2, width: regionWidth, height: regionHeight },
+    COLOR_SAMPLE_SIZE,
+    COLOR_SAMPLE_SIZE
+  );
+
+  const counts = new Map<ColorName, { count: number; lightness: number }>();
+  const pixelCount = center.length / 4;
+  for (let i = 0; i < center.length; i += 4) {
+    const { h, s, l } = toHsl(center[i], center[i + 1], center[i + 2]);
+    const name = classifyPixel(h, s, l);
+    const entry = counts.get(name) ?? { count: 0, lightness: 0 };
+    entry.count++;
+    entry.lightness += l;
+    counts.set(name, entry);
+  }
+
+  const colors = [...counts.entries()]
+    .sort((a, b) => b[1].count - a[1].count)
+    .map(([name, { count, lightness }]) => ({
+      name,
+      shade: shadeOf(name, lightness / count),
+      share: count / pixelCount,
+    }))
+    .filter((color, i) => i === 0 || (i === 1 && color.share >= SECONDARY_COLOR_MIN_SHARE))
+    .slice(0, 2);
+
+  const full = sampleImage(img, { x: 0, y: 0, width, height }, LIGHT_SAMPLE_WIDTH, LIGHT_SAMPLE_HEIGHT);
+  let luma = 0;
+  for (let i = 0; i < full.length; i += 4) {
+    luma += (0.299 * full[i] + 0.587 * full[i + 1] + 0.114 * full[i + 2]) / 255;
+  }
+  const brightness = luma / (full.length / 4);
+
+  return { colors, lightLevel: toLightLevel(brightness), brightness };
+}
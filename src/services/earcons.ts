@@ -0,0 +1,159 @@
+// Short tones for hazards, one per category, panned to where the hazard sits in the frame
+// so a vehicle on the left is heard on the left through headphones. They go through Web
+// Audio and mix with speech rather than waiting for it or cutting it off.
+
+import { getAudioContext } from './audioCues';
+import { sortHazards, type Hazard, type HazardType } from './hazards';
+
+export type EarconCategory = 'vehicle' | 'drop' | 'obstacle' | 'person' | 'slip' | 'danger' | 'other';
+
+export const EARCON_CATEGORIES: EarconCategory[] = ['vehicle', 'drop', 'obstacle', 'person', 'slip', 'danger', 'other'];
+
+export interface EarconSettings {
+  enabled: boolean;
+  // 0..1
+  volume: number;
+  // Automatic results are heard as earcons only, without the spoken description.
+  earconsOnly: boolean;
+}
+
+const ENABLED_KEY = 'earconsEnabled';
+const VOLUME_KEY = 'earconVolume';
+const EARCONS_ONLY_KEY = 'earconsOnly';
+const DEFAULT_VOLUME = 0.6;
+
+const CATEGORY_BY_TYPE: Record<HazardType, EarconCategory> = {
+  vehicle: 'vehicle',
+  traffic: 'vehicle',
+  moving_object: 'vehicle',
+  stairs: 'drop',
+  step: 'drop',
+  hole: 'drop',
+  uneven_surface: 'drop',
+  obstacle: 'obstacle',
+  construction: 'obstacle',
+  door: 'obstacle',
+  wall: 'obstacle',
+  furniture: 'obstacle',
+  glass: 'obstacle',
+  person: 'person',
+  crowd: 'person',
+  wet_floor: 'slip',
+  water: 'slip',
+  weapon: 'danger',
+  sharp_object: 'danger',
+  electric: 'danger',
+  hot_surface: 'danger',
+  other: 'other',
+};
+
+interface EarconTone {
+  // Played one after another.
+  notes: number[];
+  type: OscillatorType;
+  noteMs: number;
+  // Harsh waveforms sound louder at the same gain.
+  gain: number;
+}
+
+// Distinct in both pitch contour and timbre, so they can be told apart without stereo.
+const TONES: Record<EarconCategory, EarconTone> = {
+  // Falling two-tone, like a horn.
+  vehicle: { notes: [440, 330], type: 'sawtooth', noteMs: 120, gain: 0.35 },
+  // Steps down, like something falling away.
+  drop: { notes: [660, 440, 294], type: 'triangle', noteMs: 90, gain: 0.8 },
+  // A double knock.
+  obstacle: { notes: [523, 523], type: 'square', noteMs: 70, gain: 0.3 },
+  // Rising and soft.
+  person: { notes: [587, 784], type: 'sine', noteMs: 110, gain: 0.8 },
+  // A quick wobble.
+  slip: { notes: [880, 988, 880], type: 'sine', noteMs: 60, gain: 0.8 },
+  // Rapid high beeps.
+  danger: { notes: [1046, 1046, 1046], type: 'square', noteMs: 50, gain: 0.3 },
+  other: { notes: [600], type: 'triangle', noteMs: 150, gain: 0.8 },
+};
+
+// Several hazards play one after another, most urgent first, and only the first few.
+const MAX_EARCONS = 3;
+const EARCON_SPACING_MS = 450;
+const NOTE_GAP_MS = 30;
+
+export function getEarconSettings(): EarconSettings {
+  const volume = parseFloat(localStorage.getItem(VOLUME_KEY) ?? '');
+  return {
+    enabled: localStorage.getItem(ENABLED_KEY) !== 'false',
+    volume: Number.isFinite(volume) ? Math.min(1, Math.max(0, volume)) : DEFAULT_VOLUME,
+    earconsOnly: localStorage.getItem(EARCONS_ONLY_KEY) === 'true',
+  };
+}
+
+export function setEarconSettings(settings: EarconSettings) {
+  localStorage.setItem(ENABLED_KEY, String(settings.enabled));
+  localStorage.setItem(VOLUME_KEY, String(settings.volume));
+  localStorage.setItem(EARCONS_ONLY_KEY, String(settings.earconsOnly));
+}
+
+export const earconCategory = (type: HazardType): EarconCategory => CATEGORY_BY_TYPE[type];
+
+// -1 is hard left, 1 hard right. The box is the most precise; the clock face is always there.
+export function hazardPan(hazard: Hazard): number {
+  if (hazard.box) {
+    return Math.min(1, Math.max(-1, (hazard.box.x + hazard.box.width / 2) * 2 - 1));
+  }
+  return Math.sin((hazard.clock * Math.PI) / 6);
+}
+
+// Plays one category's tone at the given pan, starting `delayMs` from now.
+export function playEarcon(category: EarconCategory, pan: number, volume: number, delayMs = 0) {
+  const ctx = getAudioContext();
+  if (!ctx || volume <= 0) return;
+
+  const tone = TONES[category];
+  const output = ctx.createGain();
+  output.gain.value = volume * tone.gain;
+
+  // Older Safari has no stereo panner; the tone still plays, just centred.
+  if (typeof ctx.createStereoPanner === 'function') {
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = pan;
+    output.connect(panner).connect(ctx.destination);
+  } else {
+    output.connect(ctx.destination);
+  }
+
+  const noteSeconds = tone.noteMs / 1000;
+  tone.notes.forEach((frequency, i) => {
+    const start = ctx.currentTime + delayMs / 1000 + (i * (tone.noteMs + NOTE_GAP_MS)) / 1000;
+    const oscillator = ctx.createOscillator();
+    const envelope = ctx.createGain();
+    oscillator.type = tone.type;
+    oscillator.frequency.value = frequency;
+    // Short ramps avoid clicks at the start and end of each note.
+    envelope.gain.setValueAtTime(0.0001, start);
+    envelope.gain.exponentialRampToValueAtTime(1, start + 0.01);
+    envelope.gain.setValueAtTime(1, start + noteSeconds - 0.02);
+    envelope.gain.exponentialRampToValueAtTime(0.0001, start + noteSeconds);
+    oscillator.connect(envelope).connect(output);
+    oscillator.start(start);
+    oscillator.stop(start + noteSeconds + 0.01);
+  });
+}
+
+// Plays the most urgent hazards of a result. Critical ones sound twice.
+export function playHazardEarcons(hazards: Hazard[]) {
+  const { enabled, volume } = getEarconSettings();
+  if (!enabled || hazards.length === 0) return;
+
+  let delayMs = 0;
+  sortHazards(hazards)
+    .slice(0, MAX_EARCONS)
+    .forEach((hazard) => {
+      const category = earconCategory(hazard.type);
+      const pan = hazardPan(hazard);
+      const repeats = hazard.severity === 'critical' ? 2 : 1;
+      for (let i = 0; i < repeats; i++) {
+        playEarcon(category, pan, volume, delayMs);
+        delayMs += EARCON_SPACING_MS;
+      }
+    });
+}
@@ -0,0 +1,86 @@
+// Cheap on-device change detection between camera frames, used to skip sending
+// near-identical screenshots to the vision backend.
+
+export type FrameChangeSensitivity = 'off' | 'low' | 'medium' | 'high';
+
+export const FRAME_CHANGE_SENSITIVITIES: FrameChangeSensitivity[] = ['off', 'low', 'medium', 'high'];
+
+const STORAGE_KEY = 'frameChangeSensitivity';
+const DEFAULT_SENSITIVITY: FrameChangeSensitivity = 'medium';
+
+// Mean per-pixel difference (0..1) below which two frames count as "the same scene".
+// Higher sensitivity means smaller changes are enough to trigger a new analysis.
+const THRESHOLDS: Record<Exclude<FrameChangeSensitivity, 'off'>, number> = {
+  low: 0.12,
+  medium: 0.07,
+  high: 0.035,
+};
+
+// Small enough to be fast and to ignore sensor noise, large enough to notice someone walking in.
+const SIGNATURE_WIDTH = 32;
+const SIGNATURE_HEIGHT = 24;
+
+export type FrameSignature = Float32Array;
+
+export function getFrameChangeSensitivity(): FrameChangeSensitivity {
+  const saved = localStorage.getItem(STORAGE_KEY) as FrameChangeSensitivity | null;
+  return saved && FRAME_CHANGE_SENSITIVITIES.includes(saved) ? saved : DEFAULT_SENSITIVITY;
+}
+
+export function setFrameChangeSensitivity(sensitivity: FrameChangeSensitivity) {
+  localStorage.setItem(STORAGE_KEY, sensitivity);
+}
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not decode camera frame'));
+    img.src = src;
+  });
+}
+
+// Downsampled grayscale copy of the frame with its mean brightness removed,
+// so auto-exposure drift does not register as a scene change.
+export async function computeFrameSignature(dataUrl: string): Promise<FrameSignature> {
+  const img = await loadImage(dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = SIGNATURE_WIDTH;
+  canvas.height = SIGNATURE_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  ctx.drawImage(img, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+
+  const signature = new Float32Array(SIGNATURE_WIDTH * SIGNATURE_HEIGHT);
+  let sum = 0;
+  for (let i = 0; i < signature.length; i++) {
+    const luma = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+    signature[i] = luma;
+    sum += luma;
+  }
+  const mean = sum / signature.length;
+  for (let i = 0; i < signature.length; i++) {
+    signature[i] -= mean;
+  }
+  return signature;
+}
+
+export function frameDifference(a: FrameSignature, b: FrameSignature): number {
+  if (a.length !== b.length) return 1;
+  let total = 0;
+  for (let i = 0; i < a.length; i++) {
+    total += Math.abs(a[i] - b[i]);
+  }
+  return total / a.length;
+}
+
+export function isSameScene(
+  a: FrameSignature,
+  b: FrameSignature,
+  sensitivity: FrameChangeSensitivity = getFrameChangeSensitivity()
+): boolean {
+  if (sensitivity === 'off') return false;
+  return frameDifference(a, b) < THRESHOLDS[sensitivity];
+}
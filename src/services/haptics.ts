@@ -0,0 +1,107 @@
+// Vibration alerts for hazards, felt before the spoken warning and through traffic noise.
+// A pattern is the hazard's severity followed by taps for its side: one tap for left,
+// two for straight ahead, three for right.
+
+import type { ObjectPosition } from './analysisSchema';
+import { sortHazards, type Hazard, type HazardSeverity } from './hazards';
+
+export type HapticIntensity = 'gentle' | 'normal' | 'strong';
+
+export const HAPTIC_INTENSITIES: HapticIntensity[] = ['gentle', 'normal', 'strong'];
+
+export interface HapticSettings {
+  enabled: boolean;
+  intensity: HapticIntensity;
+}
+
+const ENABLED_KEY = 'hapticsEnabled';
+const INTENSITY_KEY = 'hapticIntensity';
+const DEFAULT_INTENSITY: HapticIntensity = 'normal';
+
+// navigator.vibrate has no amplitude control, so stronger means longer pulses.
+const INTENSITY_SCALE: Record<HapticIntensity, number> = {
+  gentle: 0.6,
+  normal: 1,
+  strong: 1.5,
+};
+
+// Alternating vibrate/pause durations in milliseconds, as navigator.vibrate takes them.
+const SEVERITY_PATTERNS: Record<HazardSeverity, number[]> = {
+  critical: [400, 100, 400, 100, 400],
+  warning: [250, 150, 250],
+  info: [120],
+};
+
+const SIDE_TAPS: Record<ObjectPosition, number> = { left: 1, center: 2, right: 3 };
+const TAP_MS = 60;
+const TAP_GAP_MS = 120;
+// Long enough that the side taps are not felt as part of the severity pattern.
+const SEVERITY_TO_SIDE_GAP_MS = 400;
+
+export function isHapticsSupported(): boolean {
+  return typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function';
+}
+
+// On by default where the device can vibrate: it is the fastest warning the app can give.
+export function getHapticSettings(): HapticSettings {
+  const intensity = localStorage.getItem(INTENSITY_KEY) as HapticIntensity | null;
+  return {
+    enabled: localStorage.getItem(ENABLED_KEY) !== 'false',
+    intensity: intensity && HAPTIC_INTENSITIES.includes(intensity) ? intensity : DEFAULT_INTENSITY,
+  };
+}
+
+export function setHapticSettings(settings: HapticSettings) {
+  localStorage.setItem(ENABLED_KEY, String(settings.enabled));
+  localStorage.setItem(INTENSITY_KEY, settings.intensity);
+}
+
+// 12 o'clock is straight ahead; anything from 2 to 5 is on the right and from 7 to 10 on the left.
+export function hazardSide(hazard: Hazard): ObjectPosition {
+  if (hazard.clock >= 2 && hazard.clock <= 5) return 'right';
+  if (hazard.clock >= 7 && hazard.clock <= 10) return 'left';
+  return 'center';
+}
+
+const scale = (pattern: number[], intensity: HapticIntensity) =>
+  pattern.map((duration, i) =>
+    // Only the pulses get longer; the pauses keep the rhythm recognisable.
+    i % 2 === 0 ? Math.round(duration * INTENSITY_SCALE[intensity]) : duration
+  );
+
+export function severityPattern(severity: HazardSeverity, intensity: HapticIntensity): number[] {
+  return scale(SEVERITY_PATTERNS[severity], intensity);
+}
+
+export function sidePattern(side: ObjectPosition, intensity: HapticIntensity): number[] {
+  const taps = Array.from({ length: SIDE_TAPS[side] }, (_, i) => (i === 0 ? [TAP_MS] : [TAP_GAP_MS, TAP_MS]));
+  return scale(taps.flat(), intensity);
+}
+
+export function hazardPattern(hazard: Hazard, intensity: HapticIntensity): number[] {
+  return [
+    ...severityPattern(hazard.severity, intensity),
+    SEVERITY_TO_SIDE_GAP_MS,
+    ...sidePattern(hazardSide(hazard), intensity),
+  ];
+}
+
+// How long a pattern takes to play, for spacing one after another.
+export const patternDuration = (pattern: number[]) => pattern.reduce((total, duration) => total + duration, 0);
+
+export function vibrate(pattern: number[]): boolean {
+  if (!isHapticsSupported()) return false;
+  try {
+    return navigator.vibrate(pattern);
+  } catch {
+    return false;
+  }
+}
+
+// Vibrates for the most urgent hazard only: a new pattern replaces one still playing,
+// so several in a row would just cut each other off.
+export function vibrateForHazards(hazards: Hazard[]) {
+  const { enabled, intensity } = getHapticSettings();
+  if (!enabled || hazards.length === 0) return;
+  vibrate(hazardPattern(sortHazards(hazards)[0], intensity));
+}
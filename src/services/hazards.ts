@@ -0,0 +1,61 @@
+import type { BoundingBox } from './analysisSchema';
+
+export type HazardSeverity = 'critical' | 'warning' | 'info';
+export type HazardDistance = 'near' | 'medium' | 'far';
+
+// Canonical hazard type IDs the model is asked to classify into. They are stable across
+// languages: analytics report them as-is and each locale pack names them.
+export const HAZARD_TYPES = [
+  'vehicle',
+  'traffic',
+  'weapon',
+  'stairs',
+  'step',
+  'hole',
+  'uneven_surface',
+  'wet_floor',
+  'water',
+  'obstacle',
+  'moving_object',
+  'person',
+  'crowd',
+  'construction',
+  'door',
+  'wall',
+  'furniture',
+  'glass',
+  'sharp_object',
+  'electric',
+  'hot_surface',
+  'other',
+] as const;
+
+export type HazardType = (typeof HAZARD_TYPES)[number];
+
+export interface Hazard {
+  type: HazardType;
+  // What exactly it is ("red car reversing"), in the user's language. Empty when the type says it all.
+  detail: string;
+  severity: HazardSeverity;
+  // Clock-face direction relative to the camera: 12 is straight ahead, 3 is right, 9 is left.
+  clock: number;
+  distance: HazardDistance;
+  // Where it is in the analyzed frame, when the model or detector could place it.
+  box?: BoundingBox;
+}
+
+const SEVERITY_ORDER: Record<HazardSeverity, number> = { critical: 0, warning: 1, info: 2 };
+const DISTANCE_ORDER: Record<HazardDistance, number> = { near: 0, medium: 1, far: 2 };
+
+export function isHazardType(value: unknown): value is HazardType {
+  return typeof value === 'string' && (HAZARD_TYPES as readonly string[]).includes(value);
+}
+
+// Most urgent first: critical before warning before info, then nearest first.
+export function sortHazards(hazards: Hazard[]): Hazard[] {
+  return [...hazards].sort(
+    (a, b) =>
+      SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+      DISTANCE_ORDER[a.distance] - DISTANCE_ORDER[b.distance]
+  );
+}
@@ -0,0 +1,179 @@
+// Decides what in a new scene or navigation result is worth saying aloud. The model
+// rephrases an unchanged scene every cycle, so descriptions are compared by the words
+// they share, and hazards and objects by what they are and where they sit.
+
+import type { ObjectPosition, SceneObject } from './analysisSchema';
+import type { Hazard, HazardDistance, HazardSeverity } from './hazards';
+
+export type NoveltySensitivity = 'off' | 'low' | 'medium' | 'high';
+
+export const NOVELTY_SENSITIVITIES: NoveltySensitivity[] = ['off', 'low', 'medium', 'high'];
+
+// What to do when a result holds nothing new.
+export type UnchangedCue = 'silent' | 'tick';
+
+export const UNCHANGED_CUES: UnchangedCue[] = ['silent', 'tick'];
+
+export interface NoveltySettings {
+  sensitivity: NoveltySensitivity;
+  unchangedCue: UnchangedCue;
+}
+
+const SENSITIVITY_KEY = 'noveltySensitivity';
+const UNCHANGED_CUE_KEY = 'unchangedCue';
+const DEFAULT_SENSITIVITY: NoveltySensitivity = 'medium';
+const DEFAULT_UNCHANGED_CUE: UnchangedCue = 'silent';
+
+// Higher sensitivity means smaller changes are enough to be announced. `similarity` is the
+// share of words two descriptions must have in common to count as the same scene, and
+// `clockTolerance` how many clock hours a hazard may drift and still be the same one.
+const THRESHOLDS: Record<Exclude<NoveltySensitivity, 'off'>, { similarity: number; clockTolerance: number }> = {
+  low: { similarity: 0.25, clockTolerance: 2 },
+  medium: { similarity: 0.4, clockTolerance: 1 },
+  high: { similarity: 0.6, clockTolerance: 1 },
+};
+
+// Compared against a few recent results rather than only the last, so an object the model
+// missed for one frame is not announced again when it reappears.
+const HISTORY_SIZE = 3;
+const HISTORY_MAX_AGE_MS = 60000;
+
+const SEVERITY_RANK: Record<HazardSeverity, number> = { info: 0, warning: 1, critical: 2 };
+const DISTANCE_RANK: Record<HazardDistance, number> = { far: 0, medium: 1, near: 2 };
+
+export interface AnnouncedResult {
+  // The scene description, or the guidance in navigation mode.
+  description: string;
+  hazards: Hazard[];
+  objects: SceneObject[];
+}
+
+export interface NewObject {
+  // Localized name, as the model gave it.
+  label: string;
+  count: number;
+  // Omitted when the object could not be placed in the frame.
+  position?: ObjectPosition;
+}
+
+export interface Novelty {
+  // Nothing to compare with, the filter is off, or the description no longer matches:
+  // the whole result should be announced.
+  isNewScene: boolean;
+  // Hazards not seen recently, or seen but now more severe or closer.
+  hazards: Hazard[];
+  objects: NewObject[];
+}
+
+export interface NoveltyFilter {
+  // Compares a result with recent ones, then remembers it.
+  check(result: AnnouncedResult): Novelty;
+  // Forget recent results, e.g. after a mode or language change.
+  reset(): void;
+}
+
+interface RecentResult {
+  words: Set<string>;
+  hazards: Hazard[];
+  objects: SceneObject[];
+  at: number;
+}
+
+export function getNoveltySettings(): NoveltySettings {
+  const sensitivity = localStorage.getItem(SENSITIVITY_KEY) as NoveltySensitivity | null;
+  const unchangedCue = localStorage.getItem(UNCHANGED_CUE_KEY) as UnchangedCue | null;
+  return {
+    sensitivity: sensitivity && NOVELTY_SENSITIVITIES.includes(sensitivity) ? sensitivity : DEFAULT_SENSITIVITY,
+    unchangedCue: unchangedCue && UNCHANGED_CUES.includes(unchangedCue) ? unchangedCue : DEFAULT_UNCHANGED_CUE,
+  };
+}
+
+export function setNoveltySettings(settings: NoveltySettings) {
+  localStorage.setItem(SENSITIVITY_KEY, settings.sensitivity);
+  localStorage.setItem(UNCHANGED_CUE_KEY, settings.unchangedCue);
+}
+
+// Letters and digits in any script; single characters carry no meaning on their own.
+function toWords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{M}\p{N}]+/u)
+      .filter((word) => word.length > 1)
+  );
+}
+
+// Jaccard similarity: shared words over all words.
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  a.forEach((word) => {
+    if (b.has(word)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+const clockDistance = (a: number, b: number) => {
+  const diff = Math.abs(a - b) % 12;
+  return Math.min(diff, 12 - diff);
+};
+
+function isKnownHazard(hazard: Hazard, recent: Hazard[], clockTolerance: number): boolean {
+  return recent.some(
+    (seen) =>
+      seen.type === hazard.type &&
+      clockDistance(seen.clock, hazard.clock) <= clockTolerance &&
+      SEVERITY_RANK[seen.severity] >= SEVERITY_RANK[hazard.severity] &&
+      DISTANCE_RANK[seen.distance] >= DISTANCE_RANK[hazard.distance]
+  );
+}
+
+function positionOf(object: SceneObject): ObjectPosition | undefined {
+  const box = object.boxes[0];
+  if (!box) return undefined;
+  const center = box.x + box.width / 2;
+  return center < 1 / 3 ? 'left' : center > 2 / 3 ? 'right' : 'center';
+}
+
+export function createNoveltyFilter(): NoveltyFilter {
+  let history: RecentResult[] = [];
+
+  return {
+    check(result) {
+      const now = Date.now();
+      const { sensitivity } = getNoveltySettings();
+      const words = toWords(result.description);
+      const recent = history.filter((entry) => now - entry.at <= HISTORY_MAX_AGE_MS);
+      history = [{ words, hazards: result.hazards, objects: result.objects, at: now }, ...recent].slice(
+        0,
+        HISTORY_SIZE
+      );
+
+      if (sensitivity === 'off' || recent.length === 0) {
+        return { isNewScene: true, hazards: result.hazards, objects: [] };
+      }
+
+      const { similarity: sameScene, clockTolerance } = THRESHOLDS[sensitivity];
+      const isNewScene = !recent.some((entry) => similarity(entry.words, words) >= sameScene);
+
+      const recentHazards = recent.flatMap((entry) => entry.hazards);
+      const hazards = result.hazards.filter((hazard) => !isKnownHazard(hazard, recentHazards, clockTolerance));
+
+      const objects = result.objects.flatMap((object): NewObject[] => {
+        const seenCount = Math.max(
+          0,
+          ...recent.map((entry) => entry.objects.find((seen) => seen.name === object.name)?.count ?? 0)
+        );
+        if (object.count <= seenCount) return [];
+        const position = positionOf(object);
+        return [{ label: object.label, count: object.count - seenCount, ...(position && { position }) }];
+      });
+
+      return { isNewScene, hazards, objects };
+    },
+
+    reset() {
+      history = [];
+    },
+  };
+}
@@ -0,0 +1,156 @@
+// Reduced "offline mode": a small COCO-SSD object detector running in the browser on the
+// CPU backend, used for scene and navigation captures when the cloud backend cannot be
+// reached or has no usable key. It knows common objects only (people, vehicles, furniture,
+// animals); stairs, holes and wet floors are not in its vocabulary.
+
+import type { DetectedObject, ObjectDetection } from '@tensorflow-models/coco-ssd';
+import { loadImage } from './frameDiff';
+import { classifyProviderError } from './providers/keyPool';
+import { isAbortError } from './abort';
+import type { SceneObject } from './analysisSchema';
+import { sortHazards, type Hazard, type HazardDistance, type HazardSeverity, type HazardType } from './hazards';
+
+export interface OfflineDetection {
+  // Labels are the detector's English class names; it has no translations.
+  objects: SceneObject[];
+  hazards: Hazard[];
+}
+
+const MAX_DETECTIONS = 20;
+const MIN_SCORE = 0.5;
+
+// COCO classes worth announcing, with the hazard type they map to and how serious they
+// are when close; further away they drop one severity level.
+const HAZARD_CLASSES: Record<string, { type: HazardType; nearSeverity: HazardSeverity }> = {
+  person: { type: 'person', nearSeverity: 'warning' },
+  bicycle: { type: 'vehicle', nearSeverity: 'critical' },
+  motorcycle: { type: 'vehicle', nearSeverity: 'critical' },
+  car: { type: 'vehicle', nearSeverity: 'critical' },
+  bus: { type: 'vehicle', nearSeverity: 'critical' },
+  truck: { type: 'vehicle', nearSeverity: 'critical' },
+  train: { type: 'vehicle', nearSeverity: 'critical' },
+  'traffic light': { type: 'traffic', nearSeverity: 'info' },
+  'stop sign': { type: 'traffic', nearSeverity: 'info' },
+  'fire hydrant': { type: 'obstacle', nearSeverity: 'warning' },
+  bench: { type: 'furniture', nearSeverity: 'warning' },
+  chair: { type: 'furniture', nearSeverity: 'warning' },
+  couch: { type: 'furniture', nearSeverity: 'warning' },
+  bed: { type: 'furniture', nearSeverity: 'warning' },
+  'dining table': { type: 'furniture', nearSeverity: 'warning' },
+  'potted plant': { type: 'obstacle', nearSeverity: 'warning' },
+  suitcase: { type: 'obstacle', nearSeverity: 'warning' },
+  dog: { type: 'moving_object', nearSeverity: 'warning' },
+  cow: { type: 'moving_object', nearSeverity: 'warning' },
+  horse: { type: 'moving_object', nearSeverity: 'warning' },
+  knife: { type: 'sharp_object', nearSeverity: 'warning' },
+  scissors: { type: 'sharp_object', nearSeverity: 'warning' },
+};
+
+const WEAKER_SEVERITY: Record<HazardSeverity, HazardSeverity> = { critical: 'warning', warning: 'info', info: 'info' };
+
+// The lite_mobilenet_v2 weights are served with the app (public/models/coco-ssd) instead of
+// from a third-party host. VITE_OFFLINE_MODEL_URL can point somewhere else.
+const BUNDLED_MODEL_URL = `${import.meta.env.BASE_URL}models/coco-ssd/model.json`;
+
+let detectorPromise: Promise<ObjectDetection> | null = null;
+
+// Loaded on first use and kept in memory, so it keeps working after the connection drops.
+function loadDetector(): Promise<ObjectDetection> {
+  if (!detectorPromise) {
+    detectorPromise = (async () => {
+      const [tf, cocoSsd] = await Promise.all([
+        import('@tensorflow/tfjs-core'),
+        import('@tensorflow-models/coco-ssd'),
+        // Registers the CPU backend; no WebGL needed.
+        import('@tensorflow/tfjs-backend-cpu'),
+      ]);
+      await tf.setBackend('cpu');
+      const modelUrl = (import.meta.env.VITE_OFFLINE_MODEL_URL as string | undefined)?.trim();
+      return cocoSsd.load({ base: 'lite_mobilenet_v2', modelUrl: modelUrl || BUNDLED_MODEL_URL });
+    })();
+    detectorPromise.catch(() => {
+      // Allow a later attempt, e.g. once the network is back.
+      detectorPromise = null;
+    });
+  }
+  return detectorPromise;
+}
+
+type NavigatorWithConnection = Navigator & {
+  connection?: { saveData?: boolean; type?: string };
+};
+
+// The weights are about 18 MB, so they are only fetched ahead of time on a connection that is
+// known not to cost the user: Wi-Fi or wired, with data saver off. Browsers without the
+// Network Information API are treated as metered.
+export function isUnmeteredConnection(): boolean {
+  const connection = (navigator as NavigatorWithConnection).connection;
+  if (!connection || connection.saveData) return false;
+  return connection.type === 'wifi' || connection.type === 'ethernet';
+}
+
+// Loads the model ahead of the first offline capture. Rejects if it cannot be loaded, so the
+// caller can tell the user there is no offline fallback; later captures try again.
+export async function preloadOfflineDetector(): Promise<void> {
+  await loadDetector();
+}
+
+// True when the cloud backend is unreachable or out of usable keys, as opposed to a bad
+// request or reply that the offline detector would not fix.
+export function isCloudUnavailable(error: unknown): boolean {
+  if (!navigator.onLine) return true;
+  if (isAbortError(error)) return false;
+  return classifyProviderError(error).kind !== 'fatal';
+}
+
+function toHazard(detection: DetectedObject, imageWidth: number, imageHeight: number): Hazard | null {
+  const mapping = HAZARD_CLASSES[detection.class];
+  if (!mapping) return null;
+
+  const [x, y, width, height] = detection.bbox;
+  // Left edge is 9 o'clock, centre 12, right edge 3.
+  const centerX = (x + width / 2) / imageWidth;
+  const hour = Math.round(9 + centerX * 6) % 12;
+  // A box covering much of the frame's height is close to the camera.
+  const heightShare = height / imageHeight;
+  const distance: HazardDistance = heightShare > 0.5 ? 'near' : heightShare > 0.2 ? 'medium' : 'far';
+
+  return {
+    type: mapping.type,
+    // The type is named in the user's language; COCO class names are English only.
+    detail: '',
+    severity: distance === 'near' ? mapping.nearSeverity : WEAKER_SEVERITY[mapping.nearSeverity],
+    clock: hour === 0 ? 12 : hour,
+    distance,
+    box: { x: x / imageWidth, y: y / imageHeight, width: width / imageWidth, height: height / imageHeight },
+  };
+}
+
+function toSceneObjects(detections: DetectedObject[], imageWidth: number, imageHeight: number): SceneObject[] {
+  const byClass = new Map<string, SceneObject>();
+  for (const { class: name, bbox } of detections) {
+    const [x, y, width, height] = bbox;
+    const box = { x: x / imageWidth, y: y / imageHeight, width: width / imageWidth, height: height / imageHeight };
+    const object = byClass.get(name) ?? { name, label: name, count: 0, boxes: [] };
+    object.count++;
+    object.boxes.push(box);
+    byClass.set(name, object);
+  }
+  return [...byClass.values()];
+}
+
+export async function detectObjectsOffline(dataUrl: string): Promise<OfflineDetection> {
+  const [detector, img] = await Promise.all([loadDetector(), loadImage(dataUrl)]);
+  const detections = await detector.detect(img, MAX_DETECTIONS, MIN_SCORE);
+
+  const hazards = sortHazards(
+    detections
+      .map((d) => toHazard(d, img.naturalWidth, img.naturalHeight))
+      .filter((h): h is Hazard => h !== null)
+  );
+
+  return {
+    objects: toSceneObjects(detections, img.naturalWidth, img.naturalHeight),
+    hazards,
+  };
+}
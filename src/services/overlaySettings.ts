@@ -0,0 +1,28 @@
+// Saved preferences for the detection overlay drawn over the camera view.
+
+export type OverlayLabelSize = 'small' | 'medium' | 'large';
+
+export const OVERLAY_LABEL_SIZES: OverlayLabelSize[] = ['small', 'medium', 'large'];
+
+export interface OverlaySettings {
+  enabled: boolean;
+  labelSize: OverlayLabelSize;
+}
+
+const ENABLED_KEY = 'overlayEnabled';
+const LABEL_SIZE_KEY = 'overlayLabelSize';
+const DEFAULT_LABEL_SIZE: OverlayLabelSize = 'large';
+
+// Off by default: most users cannot see it, and it costs nothing when hidden.
+export function getOverlaySettings(): OverlaySettings {
+  const labelSize = localStorage.getItem(LABEL_SIZE_KEY) as OverlayLabelSize | null;
+  return {
+    enabled: localStorage.getItem(ENABLED_KEY) === 'true',
+    labelSize: labelSize && OVERLAY_LABEL_SIZES.includes(labelSize) ? labelSize : DEFAULT_LABEL_SIZE,
+  };
+}
+
+export function setOverlaySettings(settings: OverlaySettings) {
+  localStorage.setItem(ENABLED_KEY, String(settings.enabled));
+  localStorage.setItem(LABEL_SIZE_KEY, settings.labelSize);
+}
@@ -0,0 +1,58 @@
+import { throwIfAborted } from '../abort';
+import type { VisionProvider, VisionRequest, VisionTask } from './types';
+
+const DEFAULT_RESPONSES: Record<VisionTask, string> = {
+  scene: JSON.stringify({
+    hazards: [],
+    description: 'A person is sitting at a desk with a computer and a lamp.',
+    objects: [
+      { name: 'person', label: 'person', count: 1, boxes: [[0.3, 0.2, 0.3, 0.7]] },
+      { name: 'desk', label: 'desk', count: 1, boxes: [[0.1, 0.6, 0.8, 0.4]] },
+      { name: 'computer', label: 'computer', count: 1, boxes: [[0.55, 0.4, 0.2, 0.2]] },
+      { name: 'lamp', label: 'lamp', count: 1, boxes: [[0.8, 0.3, 0.1, 0.3]] },
+    ],
+  }),
+  navigation: JSON.stringify({
+    hazards: [{ type: 'furniture', detail: 'chair', severity: 'warning', clock: 11, distance: 'near' }],
+    navigation: 'The path ahead is clear, walk straight forward and keep the chair on your left.',
+    objects: [
+      { name: 'chair', label: 'chair', count: 1, boxes: [[0.1, 0.5, 0.25, 0.45]] },
+      { name: 'door', label: 'door', count: 1, boxes: [[0.45, 0.1, 0.2, 0.8]] },
+    ],
+  }),
+  read: JSON.stringify({
+    text: 'Paracetamol Tablets IP 500 mg. Take one tablet every six hours. Do not exceed four tablets in 24 hours.',
+    summary: 'A medicine label',
+  }),
+  currency: JSON.stringify({
+    notes: [
+      { denomination: 100, confidence: 0.94 },
+      { denomination: 500, confidence: 0.9 },
+    ],
+  }),
+  ask: JSON.stringify({
+    answer: 'The lamp on the desk is switched on.',
+  }),
+  find: JSON.stringify({
+    found: true,
+    position: 'left',
+    distance: 'near',
+  }),
+  detail: JSON.stringify({
+    description:
+      'A person sits at a wooden desk facing a computer screen. A lamp on the right of the desk is switched on, and a closed door is behind them on the left. The floor between the desk and the door is clear.',
+  }),
+};
+
+// Deterministic provider for tests and offline development. Never touches the network.
+export function createFakeProvider(
+  respond: (request: VisionRequest) => string = (request) => DEFAULT_RESPONSES[request.task]
+): VisionProvider {
+  return {
+    name: 'fake',
+    async generate(request: VisionRequest) {
+      throwIfAborted(request.signal);
+      return respond(request);
+    },
+  };
+}
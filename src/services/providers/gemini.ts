@@ -0,0 +1,114 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { raceWithAbort, sleep, throwIfAborted } from '../abort';
+import { classifyProviderError, createKeyPool } from './keyPool';
+import type { VisionProvider, VisionRequest } from './types';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+export interface GeminiProviderOptions {
+  keys: string[];
+  model?: string;
+}
+
+export function parseGeminiKeys(raw: string): string[] {
+  return raw
+    .split(/[,;\n]/g)
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .filter((s) => !s.toUpperCase().includes('YOUR_') && !s.includes('YOUR '));
+}
+
+// Transient (5xx / network) failures are retried with exponential backoff and jitter.
+const MAX_TRANSIENT_RETRIES = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+// Wait for a rate-limited key to cool down only if it is this close; otherwise fail fast
+// and let the next scheduled capture try again.
+const MAX_COOLDOWN_WAIT_MS = 5000;
+
+function backoffDelay(retry: number): number {
+  const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** retry);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+export function createGeminiProvider({ keys, model = DEFAULT_GEMINI_MODEL }: GeminiProviderOptions): VisionProvider {
+  const pool = createKeyPool(keys);
+  const clients = new Map<string, GoogleGenerativeAI>();
+
+  function getClientForKey(key: string): GoogleGenerativeAI {
+    const existing = clients.get(key);
+    if (existing) return existing;
+    const created = new GoogleGenerativeAI(key);
+    clients.set(key, created);
+    return created;
+  }
+
+  async function withKeyRotation<T>(fn: (genAI: GoogleGenerativeAI) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (pool.size === 0) {
+      throw new Error(
+        'Missing Gemini API key. Set VITE_GEMINI_API_KEYS (comma-separated) or VITE_GEMINI_API_KEY in a local .env file.'
+      );
+    }
+
+    let lastError: unknown;
+    let transientRetries = 0;
+    // Every key gets one chance per call, plus the transient retries.
+    const maxAttempts = pool.size + MAX_TRANSIENT_RETRIES;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      throwIfAborted(signal);
+
+      const key = pool.acquire();
+      if (!key) {
+        const wait = pool.msUntilAvailable();
+        // Statuses let callers classify an exhausted pool like any other provider error.
+        if (wait === null) {
+          throw Object.assign(new Error('All Gemini API keys are invalid or disabled.'), { status: 401 });
+        }
+        if (wait > MAX_COOLDOWN_WAIT_MS) {
+          throw Object.assign(
+            new Error(`All Gemini API keys are rate limited; next key available in ${Math.ceil(wait / 1000)}s.`),
+            { status: 429, retryAfterMs: wait }
+          );
+        }
+        await sleep(wait, signal);
+        continue;
+      }
+
+      try {
+        // The SDK cannot cancel its fetch, so an aborted call is abandoned rather than stopped.
+        const result = await raceWithAbort(fn(getClientForKey(key)), signal);
+        pool.reportSuccess(key);
+        return result;
+      } catch (err) {
+        if (signal?.aborted) throw err;
+        lastError = err;
+
+        const classified = classifyProviderError(err);
+        pool.reportFailure(key, classified);
+
+        if (classified.kind === 'rate_limited' || classified.kind === 'invalid_key') {
+          continue;
+        }
+        if (classified.kind === 'transient' && transientRetries < MAX_TRANSIENT_RETRIES) {
+          await sleep(backoffDelay(transientRetries++), signal);
+          continue;
+        }
+        throw err;
+      }
+    }
+
+    throw lastError instanceof Error ? lastError : new Error(String(lastError));
+  }
+
+  return {
+    name: 'gemini',
+    async generate({ prompt, image, signal }: VisionRequest) {
+      const result = await withKeyRotation(
+        (genAI) => genAI.getGenerativeModel({ model }).generateContent([prompt, { inlineData: image }]),
+        signal
+      );
+      return result.response.text();
+    },
+  };
+}
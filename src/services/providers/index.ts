@@ -0,0 +1,56 @@
+import { createFakeProvider } from './fake';
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL, parseGeminiKeys } from './gemini';
+import { createOpenAICompatibleProvider } from './openai';
+import type { VisionProvider } from './types';
+
+export type { VisionImage, VisionProvider, VisionRequest, VisionTask } from './types';
+export { createFakeProvider } from './fake';
+export { createGeminiProvider } from './gemini';
+export { createOpenAICompatibleProvider } from './openai';
+
+export type VisionProviderName = 'gemini' | 'openai' | 'fake';
+
+function createProviderFromEnv(): VisionProvider {
+  const env = import.meta.env;
+  const name = ((env.VITE_VISION_PROVIDER as string | undefined) || 'gemini').trim().toLowerCase();
+
+  switch (name as VisionProviderName) {
+    case 'openai': {
+      const baseUrl = env.VITE_OPENAI_BASE_URL as string | undefined;
+      const model = env.VITE_OPENAI_MODEL as string | undefined;
+      if (!baseUrl || !model) {
+        throw new Error('The openai vision provider needs VITE_OPENAI_BASE_URL and VITE_OPENAI_MODEL in a local .env file.');
+      }
+      return createOpenAICompatibleProvider({
+        baseUrl,
+        model,
+        apiKey: env.VITE_OPENAI_API_KEY as string | undefined,
+      });
+    }
+    case 'fake':
+      return createFakeProvider();
+    case 'gemini':
+      return createGeminiProvider({
+        keys: parseGeminiKeys(
+          (env.VITE_GEMINI_API_KEYS as string | undefined) ?? (env.VITE_GEMINI_API_KEY as string | undefined) ?? ''
+        ),
+        model: (env.VITE_GEMINI_MODEL as string | undefined) || DEFAULT_GEMINI_MODEL,
+      });
+    default:
+      throw new Error(`Unknown VITE_VISION_PROVIDER "${name}". Use gemini, openai or fake.`);
+  }
+}
+
+let activeProvider: VisionProvider | null = null;
+
+export function getVisionProvider(): VisionProvider {
+  if (!activeProvider) {
+    activeProvider = createProviderFromEnv();
+  }
+  return activeProvider;
+}
+
+// Overrides the configured provider, e.g. to run the app against a fake backend in tests.
+export function setVisionProvider(provider: VisionProvider | null) {
+  activeProvider = provider;
+}
@@ -0,0 +1,133 @@
+// Tracks the health of each API key so rotation skips keys that cannot currently succeed:
+// rate-limited keys cool down (honouring the server's retry delay), invalid keys are
+// disabled for the rest of the session.
+
+export type ProviderErrorKind = 'rate_limited' | 'invalid_key' | 'transient' | 'fatal';
+
+export interface ClassifiedError {
+  kind: ProviderErrorKind;
+  status?: number;
+  retryAfterMs?: number;
+}
+
+interface KeyHealth {
+  disabled: boolean;
+  cooldownUntil: number;
+  rateLimitStrikes: number;
+}
+
+export interface KeyPool {
+  readonly size: number;
+  // Next healthy key in round-robin order, or null if none is usable right now.
+  acquire(): string | null;
+  // Milliseconds until a cooling-down key becomes usable, or null if every key is disabled.
+  msUntilAvailable(): number | null;
+  reportSuccess(key: string): void;
+  reportFailure(key: string, error: ClassifiedError): void;
+}
+
+const DEFAULT_RATE_LIMIT_COOLDOWN_MS = 60_000;
+const MAX_RATE_LIMIT_COOLDOWN_MS = 10 * 60_000;
+
+function errorMessage(error: unknown): string {
+  return typeof error === 'object' && error && 'message' in error
+    ? String((error as { message?: unknown }).message)
+    : String(error);
+}
+
+function errorStatus(error: unknown, message: string): number | undefined {
+  if (typeof error === 'object' && error) {
+    const { status, response } = error as { status?: unknown; response?: { status?: unknown } };
+    if (typeof status === 'number') return status;
+    if (typeof response?.status === 'number') return response.status;
+  }
+  // The Gemini SDK only reports the status inside the message: "... [429 Too Many Requests] ...".
+  const match = message.match(/\[(\d{3})(?: [^\]]*)?\]/);
+  return match ? Number(match[1]) : undefined;
+}
+
+function retryAfterMs(error: unknown, message: string): number | undefined {
+  if (typeof error === 'object' && error && 'retryAfterMs' in error) {
+    const value = (error as { retryAfterMs?: unknown }).retryAfterMs;
+    if (typeof value === 'number') return value;
+  }
+  // google.rpc.RetryInfo detail, e.g. "retryDelay":"23s" or "retryDelay":"1.5s".
+  const retryInfo = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  if (retryInfo) return Math.ceil(Number(retryInfo[1]) * 1000);
+  const retryAfterHeader = message.match(/retry-after:\s*(\d+)/i);
+  if (retryAfterHeader) return Number(retryAfterHeader[1]) * 1000;
+  return undefined;
+}
+
+export function classifyProviderError(error: unknown): ClassifiedError {
+  const message = errorMessage(error);
+  const status = errorStatus(error, message);
+
+  if (status === 429) {
+    return { kind: 'rate_limited', status, retryAfterMs: retryAfterMs(error, message) };
+  }
+  if (status === 401 || status === 403) {
+    return { kind: 'invalid_key', status };
+  }
+  if (status === 400) {
+    // Gemini answers an unknown key with 400 INVALID_ARGUMENT / API_KEY_INVALID.
+    return /API_KEY_INVALID|API key not valid/i.test(message) ? { kind: 'invalid_key', status } : { kind: 'fatal', status };
+  }
+  if (status !== undefined && status >= 500) {
+    return { kind: 'transient', status };
+  }
+  if (status === undefined && (error instanceof TypeError || /fetch failed|failed to fetch|network|ECONNRESET|ETIMEDOUT/i.test(message))) {
+    return { kind: 'transient' };
+  }
+  return { kind: 'fatal', status };
+}
+
+export function createKeyPool(keys: string[], now: () => number = Date.now): KeyPool {
+  const health = new Map<string, KeyHealth>(
+    keys.map((key) => [key, { disabled: false, cooldownUntil: 0, rateLimitStrikes: 0 }])
+  );
+  let nextIndex = 0;
+
+  const isUsable = (h: KeyHealth) => !h.disabled && h.cooldownUntil <= now();
+
+  return {
+    size: keys.length,
+    acquire() {
+      for (let i = 0; i < keys.length; i++) {
+        const index = (nextIndex + i) % keys.length;
+        const key = keys[index]!;
+        if (isUsable(health.get(key)!)) {
+          nextIndex = (index + 1) % keys.length;
+          return key;
+        }
+      }
+      return null;
+    },
+    msUntilAvailable() {
+      const enabled = [...health.values()].filter((h) => !h.disabled);
+      if (enabled.length === 0) return null;
+      return Math.max(0, Math.min(...enabled.map((h) => h.cooldownUntil)) - now());
+    },
+    reportSuccess(key) {
+      const h = health.get(key);
+      if (!h) return;
+      h.cooldownUntil = 0;
+      h.rateLimitStrikes = 0;
+    },
+    reportFailure(key, error) {
+      const h = health.get(key);
+      if (!h) return;
+      if (error.kind === 'invalid_key') {
+        h.disabled = true;
+        console.warn(`Disabling API key ending in ${key.slice(-4)} (HTTP ${error.status ?? 'unknown'})`);
+      } else if (error.kind === 'rate_limited') {
+        h.rateLimitStrikes++;
+        // Without a server hint, back off harder each time the same key is rejected.
+        const cooldown =
+          error.retryAfterMs ??
+          Math.min(DEFAULT_RATE_LIMIT_COOLDOWN_MS * 2 ** (h.rateLimitStrikes - 1), MAX_RATE_LIMIT_COOLDOWN_MS);
+        h.cooldownUntil = now() + cooldown;
+      }
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import type { VisionProvider, VisionRequest } from './types';
+
+export interface OpenAICompatibleProviderOptions {
+  // e.g. http://localhost:11434/v1 for Ollama, http://localhost:8000/v1 for vLLM.
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+// Talks to any server implementing the OpenAI `/chat/completions` API with image inputs,
+// which covers most self-hosted vision model servers.
+export function createOpenAICompatibleProvider({ baseUrl, model, apiKey }: OpenAICompatibleProviderOptions): VisionProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: 'openai',
+    async generate({ prompt, image, signal }: VisionRequest) {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers,
+        signal,
+        body: JSON.stringify({
+          model,
+          messages: [
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: prompt },
+                { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } },
+              ],
+            },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        throw new Error(`[${response.status} ${response.statusText}] ${body}`.trim());
+      }
+
+      const json = (await response.json()) as ChatCompletionResponse;
+      const content = json.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new Error('Vision server returned no message content');
+      }
+      return content;
+    },
+  };
+}
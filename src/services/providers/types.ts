@@ -0,0 +1,21 @@
+export type VisionTask = 'scene' | 'navigation' | 'read' | 'currency' | 'ask' | 'find' | 'detail';
+
+export interface VisionImage {
+  // Raw base64 payload (no `data:` prefix).
+  data: string;
+  mimeType: string;
+}
+
+export interface VisionRequest {
+  // What the caller is asking for; real backends only need the prompt,
+  // the fake provider uses it to pick a canned answer.
+  task: VisionTask;
+  prompt: string;
+  image: VisionImage;
+  signal?: AbortSignal;
+}
+
+export interface VisionProvider {
+  readonly name: string;
+  generate(request: VisionRequest): Promise<string>;
+}
@@ -0,0 +1,44 @@
+// Client for the SightSound proxy server (see server/), which keeps the model API keys
+// out of the browser bundle and runs the analysis server-side.
+
+import { getOrCreateDeviceId } from '../deviceId';
+import { isObject, type JsonObject } from './analysisSchema';
+
+export type ProxyAnalysisKind = 'scene' | 'navigation' | 'read' | 'currency' | 'ask' | 'find' | 'detail';
+
+export function getProxyUrl(): string | null {
+  // Optional chaining: this module is also loaded by the proxy itself, where Vite's env does not exist.
+  const url = (import.meta.env?.VITE_VISION_PROXY_URL as string | undefined)?.trim();
+  return url ? url.replace(/\/+$/, '') : null;
+}
+
+export async function analyzeViaProxy<T>(
+  kind: ProxyAnalysisKind,
+  base64Image: string,
+  language: string,
+  options: { signal?: AbortSignal; requestId?: number },
+  // Checks the response and fills in defaults, the same way direct model replies are parsed.
+  normalize: (json: JsonObject) => T,
+  // Extra request fields for analyses that need more than the frame (e.g. the question being asked).
+  extra: Record<string, unknown> = {}
+): Promise<T & { requestId?: number }> {
+  const response = await fetch(`${getProxyUrl()}/analyze/${kind}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      // Used by the proxy for per-device rate limiting.
+      'X-Device-Id': getOrCreateDeviceId(),
+    },
+    body: JSON.stringify({ ...extra, image: base64Image, language }),
+    signal: options.signal,
+  });
+
+  if (!response.ok) {
+    const body = (await response.json().catch(() => null)) as { error?: string } | null;
+    throw new Error(`[${response.status} ${response.statusText}] ${body?.error ?? 'Proxy request failed'}`);
+  }
+
+  const result: unknown = await response.json();
+  if (!isObject(result)) throw new Error('Proxy returned a malformed response');
+  return { ...normalize(result), requestId: options.requestId };
+}
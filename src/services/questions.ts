@@ -0,0 +1,25 @@
+// Decides whether a free-form utterance that matched no voice command is a question about
+// the camera view. Only questions are sent to the model, so background chatter and
+// half-heard commands do not trigger requests.
+
+import { LANGUAGES, getLocale } from '../locales';
+
+// Optional lead-ins the user may put in front of a question, in any language.
+const QUESTION_PREFIX = new RegExp(
+  `^(?:${LANGUAGES.flatMap((language) => getLocale(language).questionPrefixes).join('|')})[\\s,:]+`,
+  'i'
+);
+
+// The user may ask in any language, whichever one the app is set to.
+const QUESTION_PATTERNS = LANGUAGES.map((language) => getLocale(language).questionPattern);
+
+// Returns the question to ask with any lead-in removed, or null if the utterance is not a question.
+export function extractQuestion(utterance: string): string | null {
+  const text = utterance.trim().replace(QUESTION_PREFIX, '').trim();
+  if (!text) return null;
+
+  const hasPrefix = text !== utterance.trim();
+  const looksLikeQuestion = text.endsWith('?') || QUESTION_PATTERNS.some((pattern) => pattern.test(text));
+
+  return hasPrefix || looksLikeQuestion ? text : null;
+}
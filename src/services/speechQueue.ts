@@ -0,0 +1,178 @@
+// The single owner of speechSynthesis. Utterances wait in a queue ordered by priority,
+// so a routine description can no longer cut off a hazard warning, and descriptions
+// that waited too long are dropped instead of describing a scene the user has left.
+
+export type SpeechPriority = 'critical' | 'command' | 'description';
+
+const PRIORITY_RANK: Record<SpeechPriority, number> = {
+  critical: 2,
+  command: 1,
+  description: 0,
+};
+
+// A newer command answer or description replaces one still waiting at the same level, but
+// not one already being spoken; every critical warning is kept.
+const SUPERSEDES_SAME_PRIORITY: Record<SpeechPriority, boolean> = {
+  critical: false,
+  command: true,
+  description: true,
+};
+
+// A queued description older than this no longer matches what the camera sees.
+const DESCRIPTION_MAX_AGE_MS = 8000;
+
+export interface SpeechRequest {
+  text: string;
+  priority: SpeechPriority;
+  lang: string;
+  voice?: SpeechSynthesisVoice | null;
+  rate?: number;
+  pitch?: number;
+  onStart?: () => void;
+  // Runs once per start: when the utterance finishes, or when it is cut off after starting.
+  onEnd?: (interrupted: boolean) => void;
+}
+
+export interface SpeechQueue {
+  speak(request: SpeechRequest): void;
+  // Silences the current utterance and drops everything waiting.
+  stop(): void;
+  isSpeaking(): boolean;
+  subscribe(listener: (speaking: boolean) => void): () => void;
+}
+
+interface QueuedSpeech {
+  request: SpeechRequest;
+  queuedAt: number;
+  started: boolean;
+}
+
+const rank = (entry: QueuedSpeech) => PRIORITY_RANK[entry.request.priority];
+
+export function createSpeechQueue(): SpeechQueue {
+  let current: QueuedSpeech | null = null;
+  let queue: QueuedSpeech[] = [];
+  let speaking = false;
+  const listeners = new Set<(speaking: boolean) => void>();
+
+  const setSpeaking = (value: boolean) => {
+    if (speaking === value) return;
+    speaking = value;
+    listeners.forEach((listener) => listener(value));
+  };
+
+  // Keeps the queue ordered by priority, first come first served within a level.
+  const enqueue = (entry: QueuedSpeech, { ahead = false } = {}) => {
+    const index = queue.findIndex((queued) =>
+      ahead ? rank(queued) <= rank(entry) : rank(queued) < rank(entry)
+    );
+    if (index === -1) queue.push(entry);
+    else queue.splice(index, 0, entry);
+  };
+
+  // Cuts off the current utterance. Its own end event is ignored because it is no longer current.
+  const interrupt = () => {
+    const interrupted = current;
+    current = null;
+    window.speechSynthesis.cancel();
+    if (interrupted?.started) interrupted.request.onEnd?.(true);
+    return interrupted;
+  };
+
+  const playNext = () => {
+    const now = Date.now();
+    queue = queue.filter(
+      (entry) => entry.request.priority !== 'description' || now - entry.queuedAt <= DESCRIPTION_MAX_AGE_MS
+    );
+
+    const next = queue.shift();
+    if (!next) {
+      current = null;
+      setSpeaking(false);
+      return;
+    }
+
+    current = next;
+    next.started = false;
+    setSpeaking(true);
+
+    const { request } = next;
+    const utterance = new SpeechSynthesisUtterance(request.text);
+    utterance.lang = request.lang;
+    if (request.voice) utterance.voice = request.voice;
+    if (request.rate !== undefined) utterance.rate = request.rate;
+    if (request.pitch !== undefined) utterance.pitch = request.pitch;
+
+    utterance.onstart = () => {
+      if (current !== next) return;
+      next.started = true;
+      request.onStart?.();
+    };
+    // Errors end the utterance too, so a failed voice cannot stall the queue.
+    const finish = () => {
+      if (current !== next) return;
+      current = null;
+      if (next.started) request.onEnd?.(false);
+      playNext();
+    };
+    utterance.onend = finish;
+    utterance.onerror = finish;
+
+    window.speechSynthesis.speak(utterance);
+  };
+
+  return {
+    speak(request) {
+      // The same words already playing are not repeated.
+      if (current?.request.text === request.text) return;
+
+      // The same words already waiting collapse into one entry at the higher priority.
+      const duplicate = queue.find((entry) => entry.request.text === request.text);
+      const priority =
+        duplicate && PRIORITY_RANK[duplicate.request.priority] > PRIORITY_RANK[request.priority]
+          ? duplicate.request.priority
+          : request.priority;
+      queue = queue.filter(
+        (entry) =>
+          entry !== duplicate &&
+          !(SUPERSEDES_SAME_PRIORITY[priority] && entry.request.priority === priority)
+      );
+
+      const entry: QueuedSpeech = { request: { ...request, priority }, queuedAt: Date.now(), started: false };
+      enqueue(entry);
+
+      if (!current) {
+        playNext();
+        return;
+      }
+
+      // Only a higher priority cuts off what is being said; anything else waits its turn.
+      if (rank(entry) <= rank(current)) return;
+
+      const interrupted = interrupt();
+      // An answer cut off by a warning is still owed to the user, so it plays again afterwards.
+      if (interrupted?.request.priority === 'command') {
+        enqueue(interrupted, { ahead: true });
+      }
+      playNext();
+    },
+
+    stop() {
+      queue = [];
+      interrupt();
+      setSpeaking(false);
+    },
+
+    isSpeaking: () => speaking,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+// Shared by the app and the voice settings panel so neither can talk over the other.
+export const speechQueue = createSpeechQueue();
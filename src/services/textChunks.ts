@@ -0,0 +1,35 @@
+// Splits text into chunks short enough to be spoken one at a time, breaking at
+// sentence boundaries (including the Devanagari danda) and line breaks where possible.
+export function splitIntoChunks(text: string, maxLength = 220): string[] {
+  const sentences = text
+    .split(/(?<=[.!?।])\s+|\n+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length + 1 > maxLength) {
+      chunks.push(current);
+      current = '';
+    }
+
+    if (sentence.length <= maxLength) {
+      current = current ? `${current} ${sentence}` : sentence;
+      continue;
+    }
+
+    // A single sentence longer than a chunk: break it between words.
+    for (const word of sentence.split(/\s+/)) {
+      if (current && current.length + word.length + 1 > maxLength) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
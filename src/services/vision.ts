@@ -1,222 +1,380 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-
-function parseGeminiKeys(): string[] {
-  const raw =
-    (import.meta.env.VITE_GEMINI_API_KEYS as string | undefined) ??
-    (import.meta.env.VITE_GEMINI_API_KEY as string | undefined) ??
-    '';
-
-  return raw
-    .split(/[,;\n]/g)
-    .map((s) => s.trim())
-    .filter(Boolean)
-    .filter((s) => !s.toUpperCase().includes('YOUR_') && !s.includes('YOUR '));
-}
-
-const GEMINI_API_KEYS = parseGeminiKeys();
-let geminiKeyIndex = 0;
-const geminiClients = new Map<string, GoogleGenerativeAI>();
-
-function getClientForKey(key: string): GoogleGenerativeAI {
-  const existing = geminiClients.get(key);
-  if (existing) return existing;
-  const created = new GoogleGenerativeAI(key);
-  geminiClients.set(key, created);
-  return created;
-}
-
-function getCurrentGeminiKey(): string {
-  if (GEMINI_API_KEYS.length === 0) {
-    throw new Error(
-      'Missing Gemini API key. Set VITE_GEMINI_API_KEYS (comma-separated) or VITE_GEMINI_API_KEY in a local .env file.'
-    );
-  }
-  return GEMINI_API_KEYS[geminiKeyIndex % GEMINI_API_KEYS.length]!;
-}
-
-function rotateGeminiKey() {
-  if (GEMINI_API_KEYS.length <= 1) return;
-  geminiKeyIndex = (geminiKeyIndex + 1) % GEMINI_API_KEYS.length;
-}
-
-function shouldRotateKey(error: unknown): boolean {
-  const msg =
-    typeof error === 'object' && error && 'message' in error
-      ? String((error as { message?: unknown }).message)
-      : String(error);
-  // Catch common quota / rate limit / key issues.
-  return (
-    msg.includes('429') ||
-    msg.toLowerCase().includes('resource_exhausted') ||
-    msg.toLowerCase().includes('quota') ||
-    msg.toLowerCase().includes('rate') ||
-    msg.toLowerCase().includes('limit') ||
-    msg.toLowerCase().includes('api key not valid') ||
-    msg.toLowerCase().includes('permission') ||
-    msg.toLowerCase().includes('unauth')
-  );
-}
-
-async function withGeminiKeyRotation<T>(fn: (genAI: GoogleGenerativeAI) => Promise<T>): Promise<T> {
-  let lastError: unknown;
-  const attempts = Math.max(1, GEMINI_API_KEYS.length);
-
-  for (let i = 0; i < attempts; i++) {
-    const key = getCurrentGeminiKey();
-    const client = getClientForKey(key);
-    try {
-      return await fn(client);
-    } catch (err) {
-      lastError = err;
-      if (GEMINI_API_KEYS.length > 1 && shouldRotateKey(err)) {
-        rotateGeminiKey();
-        continue;
-      }
-      throw err;
-    }
-  }
+import { getVisionProvider, type VisionProvider, type VisionTask } from './providers';
+import { analyzeViaProxy, getProxyUrl } from './proxyClient';
+import {
+  RUPEE_DENOMINATIONS,
+  normalizeCurrencyReading,
+  normalizeDetailedDescription,
+  normalizeNavigationAnalysis,
+  normalizeObjectLocation,
+  normalizeQuestionAnswer,
+  normalizeSceneAnalysis,
+  normalizeTextReading,
+  parseCurrencyReading,
+  parseDetailedDescription,
+  parseNavigationAnalysis,
+  parseObjectLocation,
+  parseQuestionAnswer,
+  parseSceneAnalysis,
+  parseTextReading,
+  type CurrencyNote,
+  type ObjectPosition,
+  type SceneObject,
+} from './analysisSchema';
+import { isAbortError } from './abort';
+import { HAZARD_TYPES, type Hazard, type HazardDistance } from './hazards';
+import { getLocale } from '../locales';
 
-  throw lastError instanceof Error ? lastError : new Error(String(lastError));
+export interface AnalysisOptions {
+  // Aborting rejects the analysis with an AbortError and skips any remaining work.
+  signal?: AbortSignal;
+  // Echoed back on the result so callers can drop responses to superseded requests.
+  requestId?: number;
+  // Backend to use instead of the configured one; the proxy server passes its own.
+  provider?: VisionProvider;
 }
 
-type InlineDataPart = { inlineData: { data: string; mimeType: string } };
-type GenerateContentInput = Array<string | InlineDataPart>;
+export interface SceneResult {
+  requestId?: number;
+  objects: SceneObject[];
+  description: string;
+  hazards: Hazard[];
+}
 
-async function generateContentWithRotation(input: GenerateContentInput) {
-  return withGeminiKeyRotation(async (genAI) => {
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
-    return model.generateContent(input);
+export interface NavigationResult {
+  requestId?: number;
+  navigation: string;
+  hazards: Hazard[];
+  objects: SceneObject[];
+}
+
+export interface TextReadingResult {
+  requestId?: number;
+  text: string;
+  summary: string;
+}
+
+export interface CurrencyResult {
+  requestId?: number;
+  notes: CurrencyNote[];
+  confidence: number;
+  total: number;
+}
+
+export interface DetailedDescriptionResult {
+  requestId?: number;
+  description: string;
+}
+
+export interface ObjectLocationResult {
+  requestId?: number;
+  found: boolean;
+  position: ObjectPosition;
+  distance: HazardDistance;
+}
+
+export interface ConversationTurn {
+  question: string;
+  answer: string;
+}
+
+export interface QuestionAnswerResult {
+  requestId?: number;
+  answer: string;
+}
+
+// Earlier turns sent along with a question, so follow-ups like "and the one on the left?" resolve.
+export const MAX_CONVERSATION_TURNS = 6;
+
+async function generate(task: VisionTask, prompt: string, imageData: string, options: AnalysisOptions) {
+  return (options.provider ?? getVisionProvider()).generate({
+    task,
+    prompt,
+    image: { data: imageData, mimeType: 'image/jpeg' },
+    signal: options.signal,
   });
 }
 
-// Helper function to translate hazards to Malayalam and Hindi
-const translateHazardsToLanguage = (hazards: string[], language: string): string[] => {
-  const hazardTranslations: { [key: string]: { ml: string; hi: string } } = {
-    'stairs': { ml: 'പടികൾ', hi: 'सीढ़ियां' },
-    'step': { ml: 'പടി', hi: 'सीढ़ी' },
-    'uneven surface': { ml: 'അസമമായ പ്രതലം', hi: 'असमान सतह' },
-    'obstacle': { ml: 'തടസ്സം', hi: 'बाधा' },
-    'moving object': { ml: 'ചലിക്കുന്ന വസ്തു', hi: 'चलती वस्तु' },
-    'vehicle': { ml: 'വാഹനം', hi: 'वाहन' },
-    'person': { ml: 'വ്യക്തി', hi: 'व्यक्ति' },
-    'crowd': { ml: 'ജനക്കൂട്ടം', hi: 'भीड़' },
-    'water': { ml: 'വെള്ളം', hi: 'पानी' },
-    'hole': { ml: 'കുഴി', hi: 'गड्ढा' },
-    'construction': { ml: 'നിർമ്മാണം', hi: 'निर्माण' },
-    'wet floor': { ml: 'നനഞ്ഞ തറ', hi: 'गीला फर्श' },
-    'traffic': { ml: 'ഗതാഗതം', hi: 'यातायात' },
-    'door': { ml: 'വാതിൽ', hi: 'दरवाजा' },
-    'wall': { ml: 'ചുമർ', hi: 'दीवार' },
-    'furniture': { ml: 'ഫർണിച്ചർ', hi: 'फर्नीचर' },
-    'glass': { ml: 'ഗ്ലാസ്', hi: 'कांच' },
-    'sharp object': { ml: 'മൂർച്ചയുള്ള വസ്തു', hi: 'तेज वस्तु' },
-    'electric': { ml: 'വൈദ്യുതി', hi: 'बिजली' },
-    'hot surface': { ml: 'ചൂടുള്ള പ്രതലം', hi: 'गर्म सतह' }
-  };
-
-  return hazards.map(hazard => {
-    const lowerHazard = hazard.toLowerCase();
-    for (const [eng, translations] of Object.entries(hazardTranslations)) {
-      if (lowerHazard.includes(eng)) {
-        return translations[language as 'ml' | 'hi'] || hazard;
-      }
+// Instruction for the free-text fields of the JSON reply.
+function languageInstruction(language: string): string {
+  return getLocale(language).modelLanguage;
+}
+
+// Shared description of the hazard objects inside the JSON reply.
+const HAZARD_SCHEMA = `{"type": string, "detail": string, "severity": "critical" | "warning" | "info", "clock": number, "distance": "near" | "medium" | "far", "box": [number, number, number, number] | null}`;
+
+// The type is a canonical ID the app names in the user's language; only the detail is free text.
+function hazardFields(language: string): string {
+  return `Each hazard has:
+  - "type": exactly one of ${HAZARD_TYPES.join(', ')}; use "other" only if none fits
+  - "detail": a few words saying what exactly it is (for example "red car reversing" or "open manhole"), or "" if the type says it all, written in ${languageInstruction(language)}
+  - "severity": "critical" for immediate danger (moving vehicles, drops, weapons), "warning" for things to avoid, "info" for things worth knowing
+  - "clock": clock-face direction from the camera, 12 is straight ahead, 3 is right, 9 is left
+  - "distance": "near" (within about 2 metres), "medium" (2 to 5 metres) or "far"
+  - "box": its [x, y, width, height] box as fractions (0 to 1) of the image width and height measured from the top-left corner, or null if it has no clear outline`;
+}
+
+const OBJECT_SCHEMA = `{"name": string, "label": string, "count": number, "boxes": [number, number, number, number][]}`;
+
+function objectFields(language: string): string {
+  return `Each object has:
+  - "name": a short lowercase English noun
+  - "label": the same noun written in ${languageInstruction(language)}
+  - "count": how many of it are visible
+  - "boxes": one [x, y, width, height] box per visible instance, as fractions (0 to 1) of the image width and height measured from the top-left corner`;
+}
+
+function extractImageData(base64Image: string): string {
+  if (!base64Image || !base64Image.includes('base64')) {
+    throw new Error('Invalid image data provided');
+  }
+
+  const imageData = base64Image.split(',')[1];
+  if (!imageData) {
+    throw new Error('Invalid base64 image format');
+  }
+  return imageData;
+}
+
+export async function analyzeImage(
+  base64Image: string,
+  language: string = 'en',
+  options: AnalysisOptions = {}
+): Promise<SceneResult> {
+  try {
+    if (!options.provider && getProxyUrl()) {
+      return await analyzeViaProxy('scene', base64Image, language, options, normalizeSceneAnalysis);
     }
-    return hazard; // Return original if no translation found
-  });
-};
 
-export async function analyzeImage(base64Image: string, language: string = 'en') {
+    const imageData = extractImageData(base64Image);
+
+    const prompt = `You are assisting a visually impaired person. Analyze this image and respond with ONLY a JSON object (no markdown) of the form:
+{"hazards": ${HAZARD_SCHEMA}[], "description": string, "objects": ${OBJECT_SCHEMA}[]}
+- "hazards": potential hazards or dangers the person should be warned about, such as weapons, vehicles, obstacles or dangerous situations. Use [] if there are none. ${hazardFields(language)}
+- "description": a single, clear sentence (50 words or less) describing the main elements of the scene and their arrangement, written in ${languageInstruction(language)}.
+- "objects": the main objects visible, each listed once. ${objectFields(language)}`;
+
+    const result = parseSceneAnalysis(await generate('scene', prompt, imageData, options));
+
+    return {
+      requestId: options.requestId,
+      objects: result.objects,
+      description: result.description,
+      hazards: result.hazards
+    };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error('Error analyzing image:', error);
+    throw error;
+  }
+}
+
+export async function analyzeForNavigation(
+  base64Image: string,
+  language: string = 'en',
+  options: AnalysisOptions = {}
+): Promise<NavigationResult> {
   try {
-    if (!base64Image || !base64Image.includes('base64')) {
-      throw new Error('Invalid image data provided');
+    if (!options.provider && getProxyUrl()) {
+      return await analyzeViaProxy('navigation', base64Image, language, options, normalizeNavigationAnalysis);
     }
 
-    const imageData = base64Image.split(',')[1];
-    if (!imageData) {
-      throw new Error('Invalid base64 image format');
+    const imageData = extractImageData(base64Image);
+
+    const prompt = `You are guiding a visually impaired person who is walking. Analyze this image and respond with ONLY a JSON object (no markdown) of the form:
+{"hazards": ${HAZARD_SCHEMA}[], "navigation": string, "objects": ${OBJECT_SCHEMA}[]}
+- "hazards": potential hazards while navigating, such as immediate obstacles, steps, uneven surfaces or moving objects. Use [] if there are none. ${hazardFields(language)}
+- "navigation": clear, concise guidance (under 50 words) covering safe paths, obstacles to avoid and suggested directions, focused on immediate, actionable steps, written in ${languageInstruction(language)}.
+- "objects": the main objects visible, each listed once. ${objectFields(language)}`;
+
+    const result = parseNavigationAnalysis(await generate('navigation', prompt, imageData, options));
+
+    return {
+      requestId: options.requestId,
+      navigation: result.navigation,
+      hazards: result.hazards,
+      objects: result.objects
+    };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error('Error analyzing image for navigation:', error);
+    throw error;
+  }
+}
+
+export async function readText(
+  base64Image: string,
+  language: string = 'en',
+  options: AnalysisOptions = {}
+): Promise<TextReadingResult> {
+  try {
+    if (!options.provider && getProxyUrl()) {
+      return await analyzeViaProxy('read', base64Image, language, options, normalizeTextReading);
     }
 
-    // First, analyze for hazards in English for consistent detection
-    const hazardResult = await generateContentWithRotation([
-      'Analyze this image for any potential hazards or dangers that a visually impaired person should be warned about. Focus on immediate threats like weapons, vehicles, obstacles, or dangerous situations. Respond with ONLY the hazards in a comma-separated list. If no hazards are found, respond with "NONE".',
-      { inlineData: { data: imageData, mimeType: 'image/jpeg' } }
-    ]);
-    
-    const hazardText = hazardResult.response.text();
-    const hazards = hazardText === 'NONE' ? [] : hazardText.split(',').map(h => h.trim());
-
-    // Get scene description with specific language instructions
-    let descriptionPrompt = 'Describe this scene in a single, clear sentence (50 words or less). Focus on the main elements and their arrangement.';
-    
-    if (language === 'ml') {
-      descriptionPrompt = `Provide a natural Malayalam language description of this scene in a single sentence (50 words or less). Use proper Malayalam grammar and natural phrasing. Focus on describing the main elements and their arrangement in a way that sounds natural to Malayalam speakers. Respond ONLY in Malayalam script.`;
-    } else if (language === 'hi') {
-      descriptionPrompt = `इस दृश्य का एक प्राकृतिक हिंदी भाषा में वर्णन करें (50 शब्दों से कम में)। उचित हिंदी व्याकरण और प्राकृतिक वाक्य रचना का उपयोग करें। मुख्य तत्वों और उनकी व्यवस्था का वर्णन करें। केवल देवनागरी लिपि में उत्तर दें।`;
+    const imageData = extractImageData(base64Image);
+
+    const prompt = `You are reading printed text aloud for a visually impaired person. Find the text in this image (documents, letters, menus, medicine labels, signboards, packaging) and respond with ONLY a JSON object (no markdown) of the form:
+{"text": string, "summary": string}
+- "text": all readable text in natural reading order (top to bottom, following columns, headings before body), transcribed exactly as written in its original language and script. Separate blocks with newlines, skip decorative or illegible fragments, and expand nothing. Use "" if there is no readable text.
+- "summary": a few words saying what this is (for example "a medicine label" or "a restaurant menu"), written in ${languageInstruction(language)}.`;
+
+    const result = parseTextReading(await generate('read', prompt, imageData, options));
+
+    return {
+      requestId: options.requestId,
+      text: result.text,
+      summary: result.summary,
+    };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error('Error reading text from image:', error);
+    throw error;
+  }
+}
+
+export async function identifyCurrency(
+  base64Image: string,
+  language: string = 'en',
+  options: AnalysisOptions = {}
+): Promise<CurrencyResult> {
+  try {
+    if (!options.provider && getProxyUrl()) {
+      return await analyzeViaProxy('currency', base64Image, language, options, normalizeCurrencyReading);
     }
 
-    const descResult = await generateContentWithRotation([
-      descriptionPrompt,
-      { inlineData: { data: imageData, mimeType: 'image/jpeg' } }
-    ]);
-    const description = descResult.response.text().split(/[.!?]/, 1)[0].trim();
+    const imageData = extractImageData(base64Image);
+
+    const prompt = `You are helping a visually impaired person identify Indian rupee banknotes. Look at every banknote visible in this image and respond with ONLY a JSON object (no markdown) of the form:
+{"notes": [{"denomination": number, "confidence": number}]}
+- One entry per physical note, so two ₹100 notes are two entries.
+- "denomination": one of ${RUPEE_DENOMINATIONS.join(', ')}. Identify it from the numerals, colour, size and portrait side or motif.
+- "confidence": 0 to 1, how certain you are of that note's denomination. Use a low value if the note is folded, blurred, partly hidden or badly lit.
+- Use {"notes": []} if no banknote is visible. Ignore coins.`;
 
-    // Extract objects from the description (keep in English for consistency)
-    const commonObjects = ['person', 'chair', 'table', 'computer', 'phone', 'book', 'window', 'door', 'wall', 'desk', 'lamp', 'screen', 'monitor', 'keyboard', 'mouse', 'headphone', 'camera', 'wire', 'cable', 'jacket', 'shirt', 'pants', 'shoes'];
-    const objectMatches = description.toLowerCase().match(new RegExp(`\\b(${commonObjects.join('|')})\\b`, 'g')) || [];
-    const objects = [...new Set(objectMatches)];
+    const result = parseCurrencyReading(await generate('currency', prompt, imageData, options));
 
     return {
-      objects,
-      description,
-      hazards: language === 'en' ? hazards : translateHazardsToLanguage(hazards, language)
+      requestId: options.requestId,
+      notes: result.notes,
+      confidence: result.confidence,
+      total: result.total,
     };
   } catch (error) {
-    console.error('Error analyzing image:', error);
+    if (isAbortError(error)) throw error;
+    console.error('Error identifying currency:', error);
     throw error;
   }
 }
 
-export async function analyzeForNavigation(base64Image: string, language: string = 'en') {
+export async function answerQuestion(
+  base64Image: string,
+  question: string,
+  history: ConversationTurn[] = [],
+  language: string = 'en',
+  options: AnalysisOptions = {}
+): Promise<QuestionAnswerResult> {
+  const recentHistory = history.slice(-MAX_CONVERSATION_TURNS);
+
   try {
-    if (!base64Image || !base64Image.includes('base64')) {
-      throw new Error('Invalid image data provided');
+    if (!options.provider && getProxyUrl()) {
+      return await analyzeViaProxy('ask', base64Image, language, options, normalizeQuestionAnswer, {
+        question,
+        history: recentHistory,
+      });
     }
 
-    const imageData = base64Image.split(',')[1];
-    if (!imageData) {
-      throw new Error('Invalid base64 image format');
+    const imageData = extractImageData(base64Image);
+
+    const conversation = recentHistory.length
+      ? `\nEarlier in this conversation, about the same camera view:\n${recentHistory
+          .map((turn) => `Q: ${turn.question}\nA: ${turn.answer}`)
+          .join('\n')}\n`
+      : '';
+
+    const prompt = `You are the eyes of a visually impaired person. They are asking a question about what their camera sees in this image.
+${conversation}
+Question: ${JSON.stringify(question)}
+
+Respond with ONLY a JSON object (no markdown) of the form:
+{"answer": string}
+- "answer": a direct, honest answer in one or two short sentences, written in ${languageInstruction(language)}. Answer only from what is visible; if the image does not show enough to answer, say so and suggest how to point the camera. Mention anything dangerous you notice while answering.`;
+
+    const result = parseQuestionAnswer(await generate('ask', prompt, imageData, options));
+
+    return {
+      requestId: options.requestId,
+      answer: result.answer,
+    };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error('Error answering question about image:', error);
+    throw error;
+  }
+}
+
+export async function locateObject(
+  base64Image: string,
+  target: string,
+  language: string = 'en',
+  options: AnalysisOptions = {}
+): Promise<ObjectLocationResult> {
+  try {
+    if (!options.provider && getProxyUrl()) {
+      return await analyzeViaProxy('find', base64Image, language, options, normalizeObjectLocation, { target });
     }
 
-    // First, analyze for hazards in English for consistent detection
-    const hazardResult = await generateContentWithRotation([
-      'Analyze this image for any potential hazards or dangers that a visually impaired person should be warned about while navigating. Focus on immediate obstacles, steps, uneven surfaces, or moving objects. Respond with ONLY the hazards in a comma-separated list. If no hazards are found, respond with "NONE".',
-      { inlineData: { data: imageData, mimeType: 'image/jpeg' } }
-    ]);
-    
-    const hazardText = hazardResult.response.text();
-    const hazards = hazardText === 'NONE' ? [] : hazardText.split(',').map(h => h.trim());
-
-    // Get navigation guidance with specific language instructions
-    let navigationPrompt = 'Analyze this scene and provide clear, concise navigation guidance for a visually impaired person. Include information about safe paths, obstacles to avoid, and suggested directions. Keep it under 50 words and focus on immediate, actionable guidance.';
-    
-    if (language === 'ml') {
-      navigationPrompt = `Provide natural Malayalam language navigation guidance for a visually impaired person. Include information about safe paths, obstacles to avoid, and suggested directions. Use proper Malayalam grammar and natural phrasing. Keep it under 50 words and respond ONLY in Malayalam script.`;
-    } else if (language === 'hi') {
-      navigationPrompt = `एक दृष्टिबाधित व्यक्ति के लिए प्राकृतिक हिंदी भाषा में नेविगेशन मार्गदर्शन प्रदान करें। सुरक्षित रास्तों, बचने योग्य बाधाओं और सुझाए गए दिशाओं की जानकारी शामिल करें। 50 शब्दों से कम में और केवल देवनागरी लिपि में उत्तर दें।`;
+    const imageData = extractImageData(base64Image);
+
+    // The target is whatever the user said, possibly in Hindi or Malayalam.
+    const prompt = `You are helping a visually impaired person find a lost object by sweeping their camera around. The object they are looking for is: ${JSON.stringify(target)}.
+Look for it in this image and respond with ONLY a JSON object (no markdown) of the form:
+{"found": boolean, "position": "left" | "center" | "right", "distance": "near" | "medium" | "far"}
+- "found": true only if you can actually see that object (or a clear instance of it) in the image. Do not guess from similar-looking things.
+- "position": which third of the image the object is in, from the camera's point of view.
+- "distance": "near" (within arm's reach), "medium" (a few steps away) or "far".
+- If it is not visible, use {"found": false, "position": "center", "distance": "medium"}.`;
+
+    const result = parseObjectLocation(await generate('find', prompt, imageData, options));
+
+    return {
+      requestId: options.requestId,
+      found: result.found,
+      position: result.position,
+      distance: result.distance,
+    };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error('Error locating object in image:', error);
+    throw error;
+  }
+}
+
+// The longer answer to "tell me more": what the quick scene sentence had no room for.
+export async function describeInDetail(
+  base64Image: string,
+  language: string = 'en',
+  options: AnalysisOptions = {}
+): Promise<DetailedDescriptionResult> {
+  try {
+    if (!options.provider && getProxyUrl()) {
+      return await analyzeViaProxy('detail', base64Image, language, options, normalizeDetailedDescription);
     }
 
-    const navResult = await generateContentWithRotation([
-      navigationPrompt,
-      { inlineData: { data: imageData, mimeType: 'image/jpeg' } }
-    ]);
-    const navigation = navResult.response.text().split(/[.!?]/, 1)[0].trim();
+    const imageData = extractImageData(base64Image);
+
+    const prompt = `You are the eyes of a visually impaired person who has asked to hear more about what their camera sees. Describe this image in detail and respond with ONLY a JSON object (no markdown) of the form:
+{"description": string}
+- "description": three to six short sentences (under 120 words) written in ${languageInstruction(language)}. Start with anything dangerous, then the overall setting, then the main objects and people with where they are (left, right, ahead, near or far), then colours, signs or readable text worth knowing. Describe only what is visible; do not guess at what is out of frame.`;
+
+    const result = parseDetailedDescription(await generate('detail', prompt, imageData, options));
 
     return {
-      navigation,
-      hazards: language === 'en' ? hazards : translateHazardsToLanguage(hazards, language)
+      requestId: options.requestId,
+      description: result.description,
     };
   } catch (error) {
-    console.error('Error analyzing image for navigation:', error);
+    if (isAbortError(error)) throw error;
+    console.error('Error describing image in detail:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
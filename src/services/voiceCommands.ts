@@ -0,0 +1,105 @@
+// Registry of the fixed voice commands. Each command has an ID, takes its phrases from the
+// current language's locale pack, and runs with a context read at the moment it is heard,
+// so a handler never sees the state of the render that set the recognizer up.
+
+import { commandPhrases, getLocale, type CommandPhrases, type Language } from '../locales';
+
+export type CommandId = keyof CommandPhrases;
+
+export interface VoiceCommandDefinition<Context> {
+  id: CommandId;
+  // Fuzzy matching suits fixed phrases the recognizer may garble; patterns with captures
+  // must match exactly.
+  fuzzyMatchingThreshold?: number;
+  bestMatchOnly?: boolean;
+  // Listens for the phrases of every language, not just the current one.
+  allLanguages?: boolean;
+  // Whether "help" mentions it right now. Commands still run when unavailable, so they
+  // can explain why nothing happened.
+  isAvailable?: (context: Context) => boolean;
+  handler: (context: Context, ...captured: string[]) => void;
+}
+
+// The shape react-speech-recognition expects.
+export interface RecognitionCommand {
+  command: string | RegExp | (string | RegExp)[];
+  callback: (...args: unknown[]) => void;
+  isFuzzyMatch?: boolean;
+  fuzzyMatchingThreshold?: number;
+  bestMatchOnly?: boolean;
+}
+
+export interface CommandRegistry {
+  // Commands for the recognizer, in the given language.
+  recognitionCommands(language: Language): RecognitionCommand[];
+  // IDs of the commands "help" should mention in the current context, in registry order.
+  available(): CommandId[];
+  // Runs the first command whose phrase matches the whole utterance exactly, whether or not
+  // the app is listening, and says whether one did. Used for a command said in the same
+  // breath as the wake phrase, which the recognizer only sees with the wake phrase in front
+  // of it. onCommand is not called: the caller is already handling the utterance.
+  dispatch(utterance: string, language: Language): boolean;
+}
+
+export interface CommandRegistryOptions<Context> {
+  getContext: () => Context;
+  // Runs before the handler, e.g. to keep the utterance from also being taken as a question.
+  onCommand?: (id: CommandId) => void;
+  // Commands the recognizer hears while this returns false are ignored (wake-phrase mode).
+  isListening?: () => boolean;
+}
+
+export function createCommandRegistry<Context>(
+  definitions: VoiceCommandDefinition<Context>[],
+  { getContext, onCommand, isListening }: CommandRegistryOptions<Context>
+): CommandRegistry {
+  const phrases = (definition: VoiceCommandDefinition<Context>, language: Language) =>
+    definition.allLanguages ? commandPhrases(definition.id) : getLocale(language).commands[definition.id];
+
+  return {
+    recognitionCommands(language) {
+      return definitions.map((definition) => ({
+        command: phrases(definition, language),
+        // Regex captures arrive as strings, followed by the library's own match details.
+        callback: (...args: unknown[]) => {
+          if (isListening && !isListening()) return;
+          onCommand?.(definition.id);
+          const captured = args.filter((arg): arg is string => typeof arg === 'string');
+          definition.handler(getContext(), ...captured);
+        },
+        ...(definition.fuzzyMatchingThreshold !== undefined && {
+          isFuzzyMatch: true,
+          fuzzyMatchingThreshold: definition.fuzzyMatchingThreshold,
+        }),
+        ...(definition.bestMatchOnly && { bestMatchOnly: true }),
+      }));
+    },
+
+    available() {
+      const context = getContext();
+      return definitions
+        .filter((definition) => !definition.isAvailable || definition.isAvailable(context))
+        .map((definition) => definition.id);
+    },
+
+    dispatch(utterance, language) {
+      const text = utterance.trim().toLowerCase();
+      for (const definition of definitions) {
+        for (const phrase of phrases(definition, language)) {
+          if (typeof phrase === 'string') {
+            if (phrase.toLowerCase() !== text) continue;
+            definition.handler(getContext());
+            return true;
+          }
+          const match = phrase.exec(text);
+          if (match) {
+            const captured = match.slice(1).filter((group): group is string => group !== undefined);
+            definition.handler(getContext(), ...captured);
+            return true;
+          }
+        }
+      }
+      return false;
+    },
+  };
+}
@@ -0,0 +1,59 @@
+// Voice, rate and pitch for everything the app speaks. The voice settings panel edits them,
+// and "speak faster" / "speak slower" change the same rate, so the panel follows along.
+
+const VOICE_KEY = 'speechVoice';
+const RATE_KEY = 'speechRate';
+const PITCH_KEY = 'speechPitch';
+
+export const MIN_SPEECH_RATE = 0.5;
+export const MAX_SPEECH_RATE = 2;
+
+type RateListener = (rate: number) => void;
+
+const rateListeners = new Set<RateListener>();
+
+// Same range and 0.1 steps as the settings slider.
+const clampRate = (rate: number) =>
+  Math.min(MAX_SPEECH_RATE, Math.max(MIN_SPEECH_RATE, Math.round(rate * 10) / 10));
+
+function readNumber(key: string): number {
+  const value = parseFloat(localStorage.getItem(key) ?? '');
+  return Number.isFinite(value) ? value : 1;
+}
+
+// Name of the chosen voice, or null to use the language's default.
+export function getSpeechVoice(): string | null {
+  return localStorage.getItem(VOICE_KEY);
+}
+
+export function setSpeechVoice(name: string) {
+  localStorage.setItem(VOICE_KEY, name);
+}
+
+export function getSpeechRate(): number {
+  return clampRate(readNumber(RATE_KEY));
+}
+
+// Returns the rate actually stored, after clamping.
+export function setSpeechRate(rate: number): number {
+  const next = clampRate(rate);
+  localStorage.setItem(RATE_KEY, String(next));
+  rateListeners.forEach((listener) => listener(next));
+  return next;
+}
+
+export function getSpeechPitch(): number {
+  return readNumber(PITCH_KEY);
+}
+
+export function setSpeechPitch(pitch: number) {
+  localStorage.setItem(PITCH_KEY, String(pitch));
+}
+
+// Returns an unsubscribe function.
+export function subscribeToSpeechRate(listener: RateListener): () => void {
+  rateListeners.add(listener);
+  return () => {
+    rateListeners.delete(listener);
+  };
+}
@@ -0,0 +1,120 @@
+// Optional wake-phrase gating for the always-on recognizer. In wake-phrase mode, commands and
+// questions are only acted on during a short window after the user says the wake phrase
+// ("Hey SightSound"), so conversation nearby does not trigger anything.
+
+import { getLocale, type Language } from '../locales';
+
+export type ListeningMode = 'always' | 'wakePhrase';
+
+export const LISTENING_MODES: ListeningMode[] = ['always', 'wakePhrase'];
+
+export interface WakeSettings {
+  mode: ListeningMode;
+  // The user's own wake phrase; '' means the current language's defaults.
+  customPhrase: string;
+}
+
+const MODE_KEY = 'listeningMode';
+const PHRASE_KEY = 'wakePhrase';
+
+// How long the window stays open after the wake phrase or the last command heard in it.
+export const WAKE_WINDOW_MS = 8000;
+
+export function getWakeSettings(): WakeSettings {
+  const mode = localStorage.getItem(MODE_KEY) as ListeningMode | null;
+  return {
+    mode: mode && LISTENING_MODES.includes(mode) ? mode : 'always',
+    customPhrase: localStorage.getItem(PHRASE_KEY) ?? '',
+  };
+}
+
+export function setWakeSettings(settings: WakeSettings) {
+  localStorage.setItem(MODE_KEY, settings.mode);
+  localStorage.setItem(PHRASE_KEY, settings.customPhrase.trim());
+}
+
+// The phrases that open the window; the first is the one to suggest to the user.
+export function wakePhrases(language: Language, settings: WakeSettings = getWakeSettings()): string[] {
+  const custom = settings.customPhrase.trim();
+  return custom ? [custom] : getLocale(language).wakePhrases;
+}
+
+// Lowercase words without punctuation or joiners. Recognizers split "SightSound" into
+// "sight sound" as often as not, so phrases are compared with the spaces taken out.
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[\u200c\u200d]/g, '')
+    .replace(/[.,!?;:"'।]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+// If the utterance starts with one of the phrases, returns what was said after it ('' if
+// nothing); otherwise null.
+export function stripWakePhrase(utterance: string, phrases: string[]): string | null {
+  const spoken = words(utterance);
+
+  for (const phrase of phrases) {
+    const target = words(phrase).join('');
+    if (!target) continue;
+
+    let heard = '';
+    for (let i = 0; i < spoken.length && heard.length < target.length; i++) {
+      heard += spoken[i];
+      if (heard === target) return spoken.slice(i + 1).join(' ');
+    }
+  }
+  return null;
+}
+
+export interface WakeWindow {
+  // Opens the window, or restarts its timer if it is already open.
+  open(): void;
+  // Restarts the timer only if the window is open.
+  extend(): void;
+  close(): void;
+  isOpen(): boolean;
+  // Clears the timer without reporting a change, e.g. on unmount.
+  dispose(): void;
+}
+
+export function createWakeWindow({
+  durationMs = WAKE_WINDOW_MS,
+  onChange,
+}: {
+  durationMs?: number;
+  // Called only when the window actually opens or closes.
+  onChange: (open: boolean) => void;
+}): WakeWindow {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const clearTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  const wakeWindow: WakeWindow = {
+    open() {
+      const wasOpen = timer !== null;
+      clearTimer();
+      timer = setTimeout(() => wakeWindow.close(), durationMs);
+      if (!wasOpen) onChange(true);
+    },
+
+    extend() {
+      if (timer) wakeWindow.open();
+    },
+
+    close() {
+      if (!timer) return;
+      clearTimer();
+      onChange(false);
+    },
+
+    isOpen: () => timer !== null,
+
+    dispose: clearTimer,
+  };
+  return wakeWindow;
+}